@@ -0,0 +1,41 @@
+import * as fc from 'fast-check';
+import { SafeError } from './error';
+import type { SafeResult, ErrorResult, SuccessResult } from './types';
+
+export interface SafeErrorArbitraryOptions {
+  maxDepth?: number;
+  codes?: readonly string[];
+}
+
+export function arbSafeError(options: SafeErrorArbitraryOptions = {}): fc.Arbitrary<SafeError> {
+  const { maxDepth = 3, codes } = options;
+  const code = codes ? fc.constantFrom(...codes) : fc.stringMatching(/^[A-Z][A-Z_]{0,11}$/);
+  const link = fc.record({ message: fc.string(), code: fc.option(code, { nil: undefined }) });
+  const root = fc.option(fc.string().map((message) => new Error(message)), { nil: undefined });
+
+  return fc
+    .tuple(fc.array(link, { minLength: 1, maxLength: maxDepth + 1 }), root)
+    .map(([links, cause]) =>
+      links.reduceRight<Error | undefined>(
+        (inner, { message, code }) => new SafeError(message, { cause: inner, code }),
+        cause
+      ) as SafeError
+    );
+}
+
+export function arbOk<T>(value: fc.Arbitrary<T>): fc.Arbitrary<SuccessResult<T>> {
+  return value.map((data): SuccessResult<T> => [true, null, data]);
+}
+
+export function arbErr<E = SafeError>(
+  error: fc.Arbitrary<E> = arbSafeError() as unknown as fc.Arbitrary<E>
+): fc.Arbitrary<ErrorResult<E>> {
+  return error.map((err): ErrorResult<E> => [false, err, null]);
+}
+
+export function arbSafeResult<T, E = SafeError>(
+  value: fc.Arbitrary<T>,
+  error?: fc.Arbitrary<E>
+): fc.Arbitrary<SafeResult<T, E>> {
+  return fc.oneof(arbOk(value), arbErr(error));
+}
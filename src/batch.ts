@@ -0,0 +1,74 @@
+import { SafeError } from './error';
+import { to } from './core';
+import { promiseFrom } from './utils';
+import type { SafeResult } from './types';
+
+export interface MapConcurrentOptions {
+  concurrency?: number;
+  stopOnError?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface BatchResult<U> {
+  results: Array<SafeResult<U, SafeError>>;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export async function mapConcurrent<T, U>(
+  items: readonly T[],
+  fn: (item: T, index: number) => Promise<U> | U,
+  options: MapConcurrentOptions = {}
+): Promise<BatchResult<U>> {
+  const { concurrency = Infinity, stopOnError = false, signal } = options;
+  const results: Array<SafeResult<U, SafeError>> = new Array(items.length);
+  const summary = { succeeded: 0, failed: 0, skipped: 0 };
+  let next = 0;
+  let stopped: SafeError | null = null;
+
+  const valid = concurrency === Infinity || (Number.isInteger(concurrency) && concurrency >= 1);
+  if (!valid) {
+    stopped = new SafeError(`Invalid concurrency ${String(concurrency)}; expected a positive integer`, {
+      code: 'INVALID_CONCURRENCY',
+    });
+  }
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+
+      if (!stopped && signal?.aborted) {
+        stopped = new SafeError('Batch aborted before item started', {
+          code: 'ABORTED',
+          cause: signal.reason,
+        });
+      }
+      if (stopped) {
+        results[index] = [false, stopped, null];
+        summary.skipped++;
+        continue;
+      }
+
+      const result = await to(promiseFrom(() => fn(items[index] as T, index)));
+      results[index] = result;
+
+      if (result[0]) {
+        summary.succeeded++;
+      } else {
+        summary.failed++;
+        if (stopOnError && !stopped) {
+          stopped = new SafeError(`Skipped after item ${index} failed`, {
+            code: 'SKIPPED',
+            cause: result[1],
+          });
+        }
+      }
+    }
+  };
+
+  const workers = stopped ? 1 : Math.min(concurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return { results, ...summary };
+}
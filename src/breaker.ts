@@ -0,0 +1,112 @@
+import { SafeError } from './error';
+import { to } from './core';
+import { promiseFrom } from './utils';
+import type { SafeResult } from './types';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerOptions<E> {
+  failureThreshold?: number;
+  resetTimeout?: number;
+  halfOpenMax?: number;
+  isFailure?: (err: E) => boolean;
+  now?: () => number;
+  onStateChange?: (state: BreakerState, previous: BreakerState) => void;
+}
+
+export interface Breaker<A extends unknown[], T, E> {
+  (...args: A): Promise<SafeResult<T, E | SafeError>>;
+  readonly state: BreakerState;
+  onStateChange(listener: (state: BreakerState, previous: BreakerState) => void): () => void;
+  reset(): void;
+}
+
+export function createBreaker<A extends unknown[], T, E = SafeError>(
+  factory: (...args: A) => Promise<SafeResult<T, E>>,
+  options: BreakerOptions<E> = {}
+): Breaker<A, T, E> {
+  const {
+    failureThreshold = 5,
+    resetTimeout = 30_000,
+    halfOpenMax = 1,
+    isFailure = () => true,
+    now = Date.now,
+    onStateChange,
+  } = options;
+
+  const listeners = new Set<(state: BreakerState, previous: BreakerState) => void>();
+  if (onStateChange) {
+    listeners.add(onStateChange);
+  }
+
+  let state: BreakerState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trials = 0;
+
+  const transition = (next: BreakerState) => {
+    if (next === state) {
+      return;
+    }
+    const previous = state;
+    state = next;
+    failures = 0;
+    trials = 0;
+    if (next === 'open') {
+      openedAt = now();
+    }
+    listeners.forEach((listener) => listener(next, previous));
+  };
+
+  const rejectFast = (): SafeResult<T, SafeError> => [
+    false,
+    new SafeError('Circuit breaker is open', {
+      code: 'CIRCUIT_OPEN',
+      meta: { retryAt: openedAt + resetTimeout },
+    }),
+    null,
+  ];
+
+  const call = async (...args: A): Promise<SafeResult<T, E | SafeError>> => {
+    if (state === 'open' && now() - openedAt >= resetTimeout) {
+      transition('half-open');
+    }
+    if (state === 'open' || (state === 'half-open' && trials >= halfOpenMax)) {
+      return rejectFast();
+    }
+
+    const trial = state === 'half-open';
+    if (trial) {
+      trials++;
+    }
+
+    const [settled, thrown, result] = await to(promiseFrom(() => factory(...args)));
+    const outcome: SafeResult<T, E | SafeError> = settled ? result : [false, thrown, null];
+    const [ok, err] = outcome;
+    const failed = !ok && (!settled || isFailure(err as E));
+
+    if (trial && state === 'half-open') {
+      transition(failed ? 'open' : 'closed');
+    } else if (state === 'closed') {
+      failures = failed ? failures + 1 : 0;
+      if (failures >= failureThreshold) {
+        transition('open');
+      }
+    }
+
+    return outcome;
+  };
+
+  return Object.defineProperties(call, {
+    state: { get: () => state, enumerable: true },
+    onStateChange: {
+      value: (listener: (state: BreakerState, previous: BreakerState) => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    },
+    reset: { value: () => transition('closed') },
+  }) as unknown as Breaker<A, T, E>;
+}
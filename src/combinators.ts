@@ -0,0 +1,226 @@
+import { SafeError, SafeAggregateError, CollectError } from './error';
+import type { ValidationIssue } from './error';
+import { isSafeResult, isPromiseLike, settle } from './utils';
+import type { SafeResult, InputData, InputError } from './types';
+
+export type Combinable = readonly unknown[] | [] | Record<string, unknown>;
+
+type Values<I extends Combinable> = I extends readonly unknown[] ? I[number] : I[keyof I];
+
+export type AllData<I extends Combinable> = { -readonly [K in keyof I]: InputData<I[K]> };
+
+export type SettledData<I extends Combinable> = {
+  -readonly [K in keyof I]: SafeResult<InputData<I[K]>, InputError<I[K]>>;
+};
+
+function entriesOf(inputs: Combinable): Array<[string | number, unknown]> {
+  return Array.isArray(inputs)
+    ? inputs.map((value, index): [number, unknown] => [index, value])
+    : Object.entries(inputs);
+}
+
+function build(inputs: Combinable, keys: Array<string | number>, values: unknown[]): unknown {
+  if (Array.isArray(inputs)) {
+    return values;
+  }
+  const record: Record<string, unknown> = {};
+  keys.forEach((key, i) => {
+    record[key] = values[i];
+  });
+  return record;
+}
+
+export function all<I extends Combinable>(
+  inputs: I
+): Promise<SafeResult<AllData<I>, InputError<Values<I>>>> {
+  const entries = entriesOf(inputs);
+  const keys = entries.map(([key]) => key);
+  const values: unknown[] = new Array(entries.length);
+
+  return new Promise((resolve) => {
+    let remaining = entries.length;
+    if (remaining === 0) {
+      resolve([true, null, build(inputs, keys, values) as AllData<I>]);
+      return;
+    }
+
+    entries.forEach(([, input], i) => {
+      settle(() => input).then(([ok, err, data]) => {
+        if (!ok) {
+          resolve([false, err as InputError<Values<I>>, null]);
+          return;
+        }
+        values[i] = data;
+        if (--remaining === 0) {
+          resolve([true, null, build(inputs, keys, values) as AllData<I>]);
+        }
+      });
+    });
+  });
+}
+
+export async function allSettled<I extends Combinable>(
+  inputs: I
+): Promise<SafeResult<SettledData<I>, never>> {
+  const entries = entriesOf(inputs);
+  const results = await Promise.all(entries.map(([, input]) => settle(() => input)));
+  return [true, null, build(inputs, entries.map(([key]) => key), results) as SettledData<I>];
+}
+
+export function any<I extends Combinable>(
+  inputs: I
+): Promise<SafeResult<InputData<Values<I>>, SafeAggregateError<InputError<Values<I>>>>> {
+  const entries = entriesOf(inputs);
+  const errors: Array<InputError<Values<I>>> = new Array(entries.length);
+
+  return new Promise((resolve) => {
+    let remaining = entries.length;
+    const fail = () =>
+      resolve([
+        false,
+        new SafeAggregateError(`All ${entries.length} operation(s) failed`, errors, {
+          code: 'ALL_FAILED',
+        }),
+        null,
+      ]);
+
+    if (remaining === 0) {
+      fail();
+      return;
+    }
+
+    entries.forEach(([, input], i) => {
+      settle(() => input).then(([ok, err, data]) => {
+        if (ok) {
+          resolve([true, null, data as InputData<Values<I>>]);
+          return;
+        }
+        errors[i] = err as InputError<Values<I>>;
+        if (--remaining === 0) {
+          fail();
+        }
+      });
+    });
+  });
+}
+
+export function race<I extends Combinable>(
+  inputs: I
+): Promise<SafeResult<InputData<Values<I>>, InputError<Values<I>> | SafeError>> {
+  const entries = entriesOf(inputs);
+  if (entries.length === 0) {
+    return Promise.resolve([false, new SafeError('No operations to race', { code: 'EMPTY' }), null]);
+  }
+
+  return new Promise((resolve) => {
+    for (const [, input] of entries) {
+      settle(() => input).then(([ok, err, data]) => {
+        resolve(
+          ok
+            ? [true, null, data as InputData<Values<I>>]
+            : [false, err as InputError<Values<I>>, null]
+        );
+      });
+    }
+  });
+}
+
+type IsNestable<V> = V extends readonly unknown[] | PromiseLike<unknown> | Date | ((...args: any[]) => unknown)
+  ? false
+  : V extends object
+    ? true
+    : false;
+
+type Leaves<I, Nested extends boolean> = {
+  [K in keyof I]: Nested extends true ? (IsNestable<I[K]> extends true ? Leaves<I[K], true> : I[K]) : I[K];
+}[keyof I];
+
+export type CollectData<I, Nested extends boolean = false> = {
+  -readonly [K in keyof I]: Nested extends true
+    ? IsNestable<I[K]> extends true
+      ? CollectData<I[K], true>
+      : InputData<I[K]>
+    : InputData<I[K]>;
+};
+
+type CollectResult<I, Nested extends boolean> = SafeResult<
+  CollectData<I, Nested>,
+  CollectError<InputError<Leaves<I, Nested>>>
+>;
+
+export type CollectReturn<I, Nested extends boolean = false> = [
+  Extract<Leaves<I, Nested>, PromiseLike<unknown>>,
+] extends [never]
+  ? CollectResult<I, Nested>
+  : Promise<CollectResult<I, Nested>>;
+
+export interface CollectAllOptions<Nested extends boolean = boolean> {
+  nested?: Nested;
+}
+
+interface Leaf {
+  path: string[];
+  target: Record<string, unknown>;
+  value: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function combine(
+  data: Record<string, unknown>,
+  leaves: Leaf[],
+  results: Array<SafeResult<unknown, unknown>>
+): SafeResult<unknown, CollectError<unknown>> {
+  const issues: ValidationIssue[] = [];
+  const errors: Record<string, unknown> = {};
+
+  results.forEach(([ok, err, value], i) => {
+    const { path, target } = leaves[i]!;
+    const key = path[path.length - 1]!;
+    if (ok) {
+      target[key] = value;
+      return;
+    }
+    issues.push({ message: err instanceof Error ? err.message : String(err), path });
+    errors[path.join('.')] = err;
+  });
+
+  return issues.length > 0 ? [false, new CollectError(issues, errors), null] : [true, null, data];
+}
+
+export function collectAll<I extends Record<string, unknown>, Nested extends boolean = false>(
+  inputs: I,
+  options: CollectAllOptions<Nested> = {}
+): CollectReturn<I, Nested> {
+  const { nested = false } = options;
+  const leaves: Leaf[] = [];
+
+  const walk = (record: Record<string, unknown>, path: string[]): Record<string, unknown> => {
+    const target: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (nested && isPlainObject(value)) {
+        target[key] = walk(value, [...path, key]);
+      } else {
+        leaves.push({ path: [...path, key], target, value });
+      }
+    }
+    return target;
+  };
+  const data = walk(inputs, []);
+
+  if (leaves.some(({ value }) => isPromiseLike(value))) {
+    return Promise.all(leaves.map(({ value }) => settle(() => value))).then((results) =>
+      combine(data, leaves, results)
+    ) as CollectReturn<I, Nested>;
+  }
+  const results = leaves.map(({ value }): SafeResult<unknown, unknown> =>
+    isSafeResult(value) ? value : [true, null, value]
+  );
+  return combine(data, leaves, results) as CollectReturn<I, Nested>;
+}
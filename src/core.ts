@@ -1,57 +1,168 @@
 import { SafeError } from './error';
-import type { SafeResult, ErrorTransformer } from './types';
+import { captured, reportExtraCall } from './hooks';
+import type { CaptureSource } from './hooks';
+import type {
+  SafeResult,
+  ErrorTransformer,
+  SafeOptions,
+  SyncOptions,
+  FromCallbackOptions,
+} from './types';
 
-export async function to<T, E = SafeError>(
+function normalizeOptions<E, O extends SyncOptions<E>>(
+  options: ErrorTransformer<E> | O | undefined
+): O {
+  if (typeof options === 'function') {
+    return { errorTransformer: options } as O;
+  }
+  return options ?? ({} as O);
+}
+
+function transform<E>(err: unknown, { errorTransformer, context }: SyncOptions<E>): E {
+  const error = context ? SafeError.wrap(err, context) : err;
+  return errorTransformer
+    ? errorTransformer(error)
+    : SafeError.from(error) as E;
+}
+
+function abortError(signal: AbortSignal): SafeError {
+  return new SafeError('Operation aborted', { code: 'ABORTED', cause: signal.reason });
+}
+
+function withDeadline<T>(
   promise: Promise<T>,
-  errorTransformer?: ErrorTransformer<E>
+  timeout: number | undefined,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (timeout === undefined && !signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const onAbort = () => {
+      cleanup();
+      reject(abortError(signal as AbortSignal));
+    };
+    const cleanup = () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new SafeError(`Operation timed out after ${timeout}ms`, { code: 'TIMEOUT' }));
+      }, timeout);
+    }
+
+    promise.then(
+      (data) => {
+        cleanup();
+        resolve(data);
+      },
+      (err) => {
+        cleanup();
+        reject(err);
+      }
+    );
+  });
+}
+
+async function settle<T, E>(
+  promise: Promise<T>,
+  options: ErrorTransformer<E> | SafeOptions<E> | undefined,
+  source: CaptureSource
 ): Promise<SafeResult<T, E>> {
+  const startedAt = Date.now();
+  const normalized = normalizeOptions<E, SafeOptions<E>>(options);
   try {
-    const data = await promise;
+    const data = await withDeadline(promise, normalized.timeout, normalized.signal);
     return [true, null, data];
   } catch (err) {
-    const error = errorTransformer 
-      ? errorTransformer(err) 
-      : SafeError.from(err) as E;
-    return [false, error, null];
+    return captured(transform(err, normalized), source, normalized.label, startedAt);
   }
 }
 
+export function to<T, E = SafeError>(
+  promise: Promise<T>,
+  options?: ErrorTransformer<E> | SafeOptions<E>
+): Promise<SafeResult<T, E>> {
+  return settle(promise, options, 'to');
+}
+
 export function sync<T, E = SafeError>(
   fn: () => T,
-  errorTransformer?: ErrorTransformer<E>
+  options?: ErrorTransformer<E> | SyncOptions<E>
 ): SafeResult<T, E> {
+  const startedAt = Date.now();
+  const normalized = normalizeOptions<E, SyncOptions<E>>(options);
   try {
+    if (normalized.signal?.aborted) {
+      throw abortError(normalized.signal);
+    }
     const result = fn();
     return [true, null, result];
   } catch (err) {
-    const error = errorTransformer 
-      ? errorTransformer(err) 
-      : SafeError.from(err) as E;
-    return [false, error, null];
+    return captured(transform(err, normalized), 'sync', normalized.label, startedAt);
   }
 }
 
 export function cb<T, E = SafeError>(
   fn: (callback: (err: unknown, result?: T) => void) => void,
-  errorTransformer?: ErrorTransformer<E>
+  options?: ErrorTransformer<E> | SafeOptions<E>
 ): Promise<SafeResult<T, E>> {
-  return new Promise((resolve) => {
-    try {
-      fn((err, result) => {
-        if (err) {
-          const error = errorTransformer 
-            ? errorTransformer(err) 
-            : SafeError.from(err) as E;
-          resolve([false, error, null]);
+  const promise = new Promise<T>((resolve, reject) => {
+    fn((err, result) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(result as T);
+      }
+    });
+  });
+  return settle(promise, options, 'cb');
+}
+
+export function fromCallback<A extends unknown[], R extends unknown[], E = SafeError>(
+  fn: (...args: [...A, (err: unknown, ...results: R) => void]) => void,
+  options: FromCallbackOptions<E> & { multi: true }
+): (...args: A) => Promise<SafeResult<R, E>>;
+export function fromCallback<A extends unknown[], R, E = SafeError>(
+  fn: (...args: [...A, (err: unknown, result: R) => void]) => void,
+  options?: FromCallbackOptions<E> & { multi?: false }
+): (...args: A) => Promise<SafeResult<R, E>>;
+export function fromCallback<E>(
+  fn: (...args: any[]) => void,
+  options: FromCallbackOptions<E> = {}
+): (...args: unknown[]) => Promise<SafeResult<unknown, E>> {
+  const { multi = false, onExtraCall = reportExtraCall, ...safeOptions } = options;
+
+  return function (this: unknown, ...args: unknown[]) {
+    const promise = new Promise<unknown>((resolve, reject) => {
+      let callCount = 0;
+      fn.call(this, ...args, (err: unknown, ...results: unknown[]) => {
+        callCount++;
+        if (callCount > 1) {
+          onExtraCall({ callCount, err, results });
+          return;
+        }
+        if (err !== null && err !== undefined) {
+          reject(err);
         } else {
-          resolve([true, null, result as T]);
+          resolve(multi ? results : results[0]);
         }
       });
-    } catch (err) {
-      const error = errorTransformer 
-        ? errorTransformer(err) 
-        : SafeError.from(err) as E;
-      resolve([false, error, null]);
-    }
-  });
+    });
+    return settle(promise, safeOptions, 'fromCallback');
+  };
 }
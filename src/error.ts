@@ -1,27 +1,82 @@
+import { getErrorRegistry } from './registry';
+
 export interface SafeErrorOptions {
   cause?: unknown;
   code?: string;
+  meta?: Record<string, unknown>;
+}
+
+export type ErrorContext = string | { message: string; meta?: Record<string, unknown> };
+
+const originals = new WeakMap<SafeError, unknown>();
+
+const SAFE_ERROR_BRAND = Symbol.for('await-to-tuple.SafeError');
+
+type ErrorShape = { name?: unknown; message?: unknown; stack?: unknown; code?: unknown };
+
+export function isErrorLike(value: unknown): value is Error {
+  if (value instanceof Error) {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { name, message, stack } = value as ErrorShape;
+  return (
+    typeof message === 'string' &&
+    (name === undefined || typeof name === 'string') &&
+    (stack === undefined || typeof stack === 'string')
+  );
+}
+
+export function isSafeError(value: unknown): value is SafeError {
+  return (
+    value instanceof SafeError ||
+    (isErrorLike(value) && (value as unknown as Record<symbol, unknown>)[SAFE_ERROR_BRAND] === true)
+  );
 }
 
 export class SafeError extends Error {
   override name = 'SafeError';
   readonly cause?: unknown;
   readonly code?: string;
+  readonly meta?: Record<string, unknown>;
 
   constructor(message: string, options?: SafeErrorOptions) {
     super(message);
     this.cause = options?.cause;
     this.code = options?.code;
-    Object.setPrototypeOf(this, SafeError.prototype);
+    if (options?.meta) {
+      this.meta = options.meta;
+    }
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 
   static from(value: unknown): SafeError {
-    if (value instanceof SafeError) {
+    if (isSafeError(value)) {
       return value;
     }
-    
-    if (value instanceof Error) {
-      return new SafeError(value.message, { cause: value });
+
+    const wrapped = getErrorRegistry().map(value) ?? SafeError.convert(value);
+    originals.set(wrapped, value);
+    return wrapped;
+  }
+
+  static original(err: unknown): unknown {
+    return err instanceof SafeError && originals.has(err) ? originals.get(err) : err;
+  }
+
+  private static convert(value: unknown): SafeError {
+    if (isErrorLike(value)) {
+      const { code, stack } = value as ErrorShape;
+      const error = new SafeError(value.message, {
+        cause: value,
+        code: typeof code === 'string' || typeof code === 'number' ? String(code) : undefined,
+      });
+      if (typeof stack === 'string') {
+        error.stack = stack;
+      }
+      return error;
     }
     
     if (typeof value === 'string') {
@@ -37,4 +92,189 @@ export class SafeError extends Error {
     
     return new SafeError(message, { cause: value });
   }
+
+  static wrap(value: unknown, context: ErrorContext): SafeError {
+    const { message, meta } = typeof context === 'string' ? { message: context, meta: undefined } : context;
+    const cause = SafeError.from(value);
+    return new SafeError(message, { cause, code: cause.code, meta });
+  }
+}
+
+Object.defineProperty(SafeError.prototype, SAFE_ERROR_BRAND, { value: true });
+
+export class SafeAggregateError<E = SafeError> extends SafeError {
+  override name = 'SafeAggregateError';
+  readonly errors: E[];
+
+  constructor(message: string, errors: E[], options?: SafeErrorOptions) {
+    super(message, options);
+    this.errors = errors;
+  }
+}
+
+export class PipeError extends SafeError {
+  override name = 'PipeError';
+  readonly step: number;
+
+  constructor(message: string, step: number, options?: SafeErrorOptions) {
+    super(message, options);
+    this.step = step;
+  }
+}
+
+// Payload fields are copied onto the instance, so they must not shadow the error's own properties.
+export interface ReservedFields {
+  code?: never;
+  name?: never;
+  message?: never;
+  cause?: never;
+  stack?: never;
+}
+
+const reservedFields = ['code', 'name', 'message', 'cause', 'stack'] as const;
+
+export interface FieldSpec<F> {
+  readonly __fields?: F;
+}
+
+export function fields<F extends object & ReservedFields>(): FieldSpec<F> {
+  return {};
+}
+
+export interface ErrorDefinition<F> {
+  message?: string | ((fields: F) => string);
+  fields?: FieldSpec<F>;
+}
+
+export type DefinedError<C extends string, F = {}> = SafeError & Readonly<F> & {
+  readonly code: C;
+  readonly name: C;
+};
+
+export interface DefinedErrorClass<C extends string, F> {
+  new (
+    ...args: {} extends F
+      ? [fields?: F, options?: Omit<SafeErrorOptions, 'code'>]
+      : [fields: F, options?: Omit<SafeErrorOptions, 'code'>]
+  ): DefinedError<C, F>;
+  readonly code: C;
+  readonly prototype: DefinedError<C, F>;
+  is(value: unknown): value is DefinedError<C, F>;
+}
+
+export function defineError<C extends string, F extends object & ReservedFields = {}>(
+  code: C,
+  definition: ErrorDefinition<F> = {}
+): DefinedErrorClass<C, F> {
+  const { message } = definition;
+
+  class Defined extends SafeError {
+    static readonly code = code;
+    override name: string = code;
+
+    constructor(fields?: F, options?: Omit<SafeErrorOptions, 'code'>) {
+      super(
+        typeof message === 'function' ? message(fields ?? ({} as F)) : message ?? code,
+        { ...options, code }
+      );
+      const payload: Record<PropertyKey, unknown> = { ...fields };
+      for (const key of reservedFields) {
+        delete payload[key];
+      }
+      Object.assign(this, payload);
+    }
+
+    static is(value: unknown): boolean {
+      return value instanceof Defined;
+    }
+  }
+
+  return Defined as unknown as DefinedErrorClass<C, F>;
+}
+
+type CodeOf<E> = E extends { readonly code: infer C extends string } ? C : never;
+
+type ExhaustiveHandlers<E> = {
+  [C in CodeOf<E>]: (err: Extract<E, { readonly code: C }>) => unknown;
+};
+
+export type MatchErrorHandlers<E> =
+  | ([Exclude<E, { readonly code: string }>] extends [never]
+      ? ExhaustiveHandlers<E> & { _?: (err: E) => unknown }
+      : never)
+  | (Partial<ExhaustiveHandlers<E>> & { _: (err: E) => unknown });
+
+type HandlerReturn<H> = {
+  [K in keyof H]-?: H[K] extends ((...args: never[]) => infer R) | undefined ? R : never;
+}[keyof H];
+
+export function matchError<E, H extends MatchErrorHandlers<E>>(err: E, handlers: H): HandlerReturn<H> {
+  const code = (err as { code?: unknown } | null)?.code;
+  const table = handlers as Record<string, ((err: E) => unknown) | undefined>;
+
+  const handler = typeof code === 'string' && Object.prototype.hasOwnProperty.call(table, code)
+    ? table[code]
+    : table._;
+  if (!handler) {
+    throw new SafeError(`No handler for error code ${String(code)}`, {
+      code: 'UNHANDLED',
+      cause: err,
+    });
+  }
+  return handler(err) as HandlerReturn<H>;
+}
+
+export interface ValidationIssue {
+  message: string;
+  path: PropertyKey[];
+}
+
+export class ValidationError extends SafeError {
+  override name = 'ValidationError';
+  override readonly code = 'VALIDATION';
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], options?: Omit<SafeErrorOptions, 'code'>) {
+    const summary = issues
+      .map(({ message, path }) => (path.length > 0 ? `${path.map(String).join('.')}: ${message}` : message))
+      .join('; ');
+    super(`Validation failed: ${summary}`, { ...options, code: 'VALIDATION' });
+    this.issues = issues;
+  }
+}
+
+export class CollectError<E = SafeError> extends ValidationError {
+  override name = 'CollectError';
+  readonly errors: Record<string, E>;
+
+  constructor(issues: ValidationIssue[], errors: Record<string, E>, options?: Omit<SafeErrorOptions, 'code'>) {
+    super(issues, options);
+    this.errors = errors;
+  }
+}
+
+export interface HttpErrorDetails {
+  status: number;
+  statusText: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export class HttpError extends SafeError {
+  override name = 'HttpError';
+  readonly status: number;
+  readonly statusText: string;
+  readonly url: string;
+  readonly headers: Record<string, string>;
+  readonly body: string;
+
+  constructor(message: string, details: HttpErrorDetails, options?: SafeErrorOptions) {
+    super(message, options);
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.url = details.url;
+    this.headers = details.headers;
+    this.body = details.body;
+  }
 }
@@ -0,0 +1,111 @@
+import { SafeError, HttpError } from './error';
+import type { HttpErrorDetails } from './error';
+import type { SafeResult } from './types';
+
+export type ParseMode = 'json' | 'text' | 'none';
+
+export interface SafeFetchInit<P extends ParseMode = 'json'> extends RequestInit {
+  parse?: P;
+  timeout?: number;
+  snippetLength?: number;
+}
+
+type Parsed<P extends ParseMode, T> = P extends 'none' ? Response : P extends 'text' ? string : T;
+
+function headersOf(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return headers;
+}
+
+function httpCode(status: number): string {
+  return status >= 500 ? 'HTTP_5XX' : `HTTP_${status}`;
+}
+
+export async function safeFetch<T = unknown, P extends ParseMode = 'json'>(
+  input: RequestInfo | URL,
+  init: SafeFetchInit<P> = {}
+): Promise<SafeResult<Parsed<P, T>, SafeError>> {
+  const { parse = 'json', timeout, snippetLength = 500, signal, ...rest } = init;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeout === undefined
+    ? undefined
+    : setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+  const details = (response: Response, body: string): HttpErrorDetails => ({
+    status: response.status,
+    statusText: response.statusText,
+    url: response.url,
+    headers: headersOf(response),
+    body: body.slice(0, snippetLength),
+  });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(input, { ...rest, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) {
+        return [false, new SafeError(`Request timed out after ${timeout}ms`, { code: 'TIMEOUT', cause: err }), null];
+      }
+      if (signal?.aborted) {
+        return [false, new SafeError('Request aborted', { code: 'ABORTED', cause: signal.reason }), null];
+      }
+      return [false, new SafeError(`Network error: ${SafeError.from(err).message}`, { code: 'NETWORK', cause: err }), null];
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const error = new HttpError(
+        `HTTP ${response.status} ${response.statusText}`.trim(),
+        details(response, body),
+        { code: httpCode(response.status) }
+      );
+      return [false, error, null];
+    }
+
+    if (parse === 'none') {
+      return [true, null, response as Parsed<P, T>];
+    }
+
+    let body: string;
+    try {
+      body = await response.text();
+    } catch (err) {
+      const code = timedOut ? 'TIMEOUT' : signal?.aborted ? 'ABORTED' : 'NETWORK';
+      return [false, new SafeError(`Failed to read response body: ${SafeError.from(err).message}`, { code, cause: err }), null];
+    }
+
+    if (parse === 'text') {
+      return [true, null, body as Parsed<P, T>];
+    }
+
+    try {
+      return [true, null, (body === '' ? null : JSON.parse(body)) as Parsed<P, T>];
+    } catch (err) {
+      const error = new HttpError(
+        `Invalid JSON response: ${SafeError.from(err).message}`,
+        details(response, body),
+        { code: 'PARSE', cause: err }
+      );
+      return [false, error, null];
+    }
+  } finally {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+    }
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
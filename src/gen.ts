@@ -0,0 +1,41 @@
+import type { SafeResult, ErrorResult } from './types';
+
+type YieldedError<Y> = Y extends ErrorResult<infer E> ? E : never;
+
+export function* unwrap<T, E>(result: SafeResult<T, E>): Generator<ErrorResult<E>, T, unknown> {
+  const [ok, , data] = result;
+  if (ok) {
+    return data;
+  }
+  yield result;
+  throw new Error('unwrap() resumed after yielding an ErrorResult');
+}
+
+export function gen<Y extends ErrorResult<unknown>, T>(
+  fn: () => AsyncGenerator<Y, T, unknown>
+): Promise<SafeResult<T, YieldedError<Y>>>;
+export function gen<Y extends ErrorResult<unknown>, T>(
+  fn: () => Generator<Y, T, unknown>
+): SafeResult<T, YieldedError<Y>>;
+export function gen(
+  fn: () => Generator<ErrorResult<unknown>, unknown, unknown> | AsyncGenerator<ErrorResult<unknown>, unknown, unknown>
+): SafeResult<unknown, unknown> | Promise<SafeResult<unknown, unknown>> {
+  const iterator = fn();
+
+  if (Symbol.asyncIterator in iterator) {
+    return iterator.next().then(async (step) => {
+      if (step.done) {
+        return [true, null, step.value];
+      }
+      await iterator.return(undefined);
+      return step.value;
+    });
+  }
+
+  const step = iterator.next();
+  if (step.done) {
+    return [true, null, step.value];
+  }
+  iterator.return(undefined);
+  return step.value;
+}
@@ -0,0 +1,96 @@
+import type { ErrorResult, ExtraCallInfo } from './types';
+
+export type CaptureSource = 'to' | 'sync' | 'cb' | 'fromCallback' | 'pipe';
+
+export interface CaptureMeta {
+  source: CaptureSource;
+  label?: string;
+  elapsed: number;
+}
+
+export interface HookConfig {
+  onCapture?: (err: unknown, meta: CaptureMeta) => void;
+  onUnobserved?: (err: unknown, meta: CaptureMeta) => void;
+  unobservedTimeout?: number;
+  onExtraCall?: (info: ExtraCallInfo) => void;
+}
+
+const registry = new Set<HookConfig>();
+
+export function configure(config: HookConfig): () => void {
+  const entry = { ...config };
+  registry.add(entry);
+  return () => {
+    registry.delete(entry);
+  };
+}
+
+function safely(fn: () => void): void {
+  try {
+    fn();
+  } catch {
+    // Hooks must never turn a captured error into a thrown one.
+  }
+}
+
+function watchUnobserved<E>(result: ErrorResult<E>, meta: CaptureMeta): ErrorResult<E> {
+  const watchers = [...registry].filter((hooks) => hooks.onUnobserved);
+  if (watchers.length === 0) {
+    return result;
+  }
+
+  // An accessor keeps the real array, so the result still clones and posts to workers. Array
+  // destructuring reads every index up to the last binding through the iterator, so elided
+  // slots like `[ok, , data]` cannot be told apart from `[ok, err, data]` here.
+  let observed = false;
+  let err = result[1];
+  Object.defineProperty(result, '1', {
+    get() {
+      observed = true;
+      return err;
+    },
+    set(value: E) {
+      err = value;
+    },
+    enumerable: true,
+    configurable: true,
+  });
+
+  for (const hooks of watchers) {
+    const timer = setTimeout(() => {
+      if (!observed) {
+        safely(() => hooks.onUnobserved?.(err, meta));
+      }
+    }, hooks.unobservedTimeout ?? 1000);
+    (timer as unknown as { unref?: () => void }).unref?.();
+  }
+
+  return result;
+}
+
+export function captured<E>(
+  error: E,
+  source: CaptureSource,
+  label: string | undefined,
+  startedAt: number
+): ErrorResult<E> {
+  const result: ErrorResult<E> = [false, error, null];
+  if (registry.size === 0) {
+    return result;
+  }
+
+  const meta: CaptureMeta = { source, elapsed: Date.now() - startedAt };
+  if (label !== undefined) {
+    meta.label = label;
+  }
+  for (const hooks of registry) {
+    safely(() => hooks.onCapture?.(error, meta));
+  }
+  return watchUnobserved(result, meta);
+}
+
+export function reportExtraCall(info: ExtraCallInfo): void {
+  for (const hooks of registry) {
+    safely(() => hooks.onExtraCall?.(info));
+  }
+}
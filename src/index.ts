@@ -3,16 +3,117 @@ export type {
   ErrorResult,
   SafeResult,
   ErrorTransformer,
+  SafeOptions,
+  SyncOptions,
+  InputData,
+  InputError,
+  FromCallbackOptions,
+  ExtraCallInfo,
+  OkType,
+  ErrType,
+  ResultOf,
+  Unwrapped,
 } from './types';
 
-export { SafeError } from './error';
-export type { SafeErrorOptions } from './error';
+export {
+  SafeError,
+  SafeAggregateError,
+  PipeError,
+  ValidationError,
+  CollectError,
+  HttpError,
+  defineError,
+  matchError,
+  fields,
+  isSafeError,
+} from './error';
+export type {
+  SafeErrorOptions,
+  ErrorContext,
+  ErrorDefinition,
+  DefinedError,
+  DefinedErrorClass,
+  FieldSpec,
+  ReservedFields,
+  MatchErrorHandlers,
+  ValidationIssue,
+  HttpErrorDetails,
+} from './error';
 
-export { to, sync, cb } from './core';
+export { to, sync, cb, fromCallback } from './core';
 export { to as go } from './core';
 export { to as safeAwait } from './core';
 export { sync as safeCall } from './core';
 
-export { or, map, pipe, format, parse } from './utils';
+export { or, map, pipe, format, parse, withContext, match, isOk, isErr, isSafeResult } from './utils';
 export { or as unwrapOr } from './utils';
 export { pipe as safePipe } from './utils';
+
+export { retry } from './retry';
+export type { RetryPolicy, Backoff } from './retry';
+
+export { all, allSettled, any, race, collectAll } from './combinators';
+export type {
+  Combinable,
+  AllData,
+  SettledData,
+  CollectData,
+  CollectReturn,
+  CollectAllOptions,
+} from './combinators';
+
+export { mapConcurrent } from './batch';
+export type { MapConcurrentOptions, BatchResult } from './batch';
+
+export { gen, unwrap } from './gen';
+
+export { Result, AsyncResult } from './result';
+export type { MatchHandlers } from './result';
+
+export { serialize, deserialize, SERIALIZE_VERSION } from './serialize';
+export type { SerializeOptions } from './serialize';
+
+export { validate, validateSync } from './validate';
+export type { StandardSchemaV1, ValidateOptions } from './validate';
+
+export { safeFetch } from './fetch';
+export type { SafeFetchInit, ParseMode } from './fetch';
+
+export { iterate, collect } from './iterate';
+export type { IterateOptions, ItemErrorPolicy, IterableSource } from './iterate';
+
+export { safe } from './safe';
+export type { SafeReturn, SafeMethodDecorator } from './safe';
+
+export { configure } from './hooks';
+export type { HookConfig, CaptureMeta, CaptureSource } from './hooks';
+
+export {
+  ErrorRegistry,
+  registerError,
+  getErrorRegistry,
+  useErrorRegistry,
+  abortErrorRule,
+  systemErrorRule,
+} from './registry';
+export type { ErrorRule } from './registry';
+
+export { createBreaker } from './breaker';
+export type { Breaker, BreakerOptions, BreakerState } from './breaker';
+
+export { memoize } from './memoize';
+export type { Memoized, MemoizeOptions } from './memoize';
+
+export {
+  fromErrorFirst,
+  toErrorFirst,
+  fromResultObject,
+  toResultObject,
+  fromSettled,
+  toSettled,
+  toPromise,
+  orThrow,
+} from './interop';
+export type { ErrorFirst, ResultObject } from './interop';
+
+export { withResource } from './resource';
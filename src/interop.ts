@@ -0,0 +1,64 @@
+import { SafeError } from './error';
+import type { SafeResult, ErrorTransformer } from './types';
+
+export type ErrorFirst<T, E = unknown> = [E, undefined] | [null, T];
+
+export type ResultObject<T, E = unknown> = { ok: true; value: T } | { ok: false; error: E };
+
+const toSafeError: ErrorTransformer<SafeError> = (err) => SafeError.from(err);
+
+// A nullish original would read as success in the other shapes, so keep the wrapper instead.
+function originalOf(err: unknown): unknown {
+  return SafeError.original(err) ?? err;
+}
+
+export function fromErrorFirst<T, E = SafeError>(
+  tuple: ErrorFirst<T, unknown>,
+  errorTransformer: ErrorTransformer<E> = toSafeError as ErrorTransformer<E>
+): SafeResult<T, E> {
+  const [err, data] = tuple;
+  return err != null ? [false, errorTransformer(err), null] : [true, null, data as T];
+}
+
+export function toErrorFirst<T, E>(result: SafeResult<T, E>): ErrorFirst<T> {
+  const [ok, err, data] = result;
+  return ok ? [null, data] : [originalOf(err), undefined];
+}
+
+export function fromResultObject<T, E = SafeError>(
+  object: ResultObject<T, unknown>,
+  errorTransformer: ErrorTransformer<E> = toSafeError as ErrorTransformer<E>
+): SafeResult<T, E> {
+  return object.ok ? [true, null, object.value] : [false, errorTransformer(object.error), null];
+}
+
+export function toResultObject<T, E>(result: SafeResult<T, E>): ResultObject<T> {
+  const [ok, err, data] = result;
+  return ok ? { ok: true, value: data } : { ok: false, error: originalOf(err) };
+}
+
+export function fromSettled<T, E = SafeError>(
+  settled: PromiseSettledResult<T>,
+  errorTransformer: ErrorTransformer<E> = toSafeError as ErrorTransformer<E>
+): SafeResult<T, E> {
+  return settled.status === 'fulfilled'
+    ? [true, null, settled.value]
+    : [false, errorTransformer(settled.reason), null];
+}
+
+export function toSettled<T, E>(result: SafeResult<T, E>): PromiseSettledResult<T> {
+  const [ok, err, data] = result;
+  return ok ? { status: 'fulfilled', value: data } : { status: 'rejected', reason: originalOf(err) };
+}
+
+export function orThrow<T, E>(result: SafeResult<T, E>): T {
+  const [ok, err, data] = result;
+  if (!ok) {
+    throw originalOf(err);
+  }
+  return data;
+}
+
+export async function toPromise<T, E>(result: SafeResult<T, E> | PromiseLike<SafeResult<T, E>>): Promise<T> {
+  return orThrow(await result);
+}
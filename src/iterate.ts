@@ -0,0 +1,88 @@
+import { SafeError } from './error';
+import { to } from './core';
+import { promiseFrom } from './utils';
+import type { SafeResult } from './types';
+
+export type ItemErrorPolicy = 'stop' | 'skip' | 'yield';
+
+export interface IterateOptions<T, U> {
+  onError?: ItemErrorPolicy;
+  map?: (item: T, index: number) => U;
+}
+
+export type IterableSource<T> = AsyncIterable<T> | Iterable<T>;
+
+function iteratorOf<T>(source: IterableSource<T>): AsyncIterator<T> | Iterator<T> {
+  return Symbol.asyncIterator in source
+    ? source[Symbol.asyncIterator]()
+    : source[Symbol.iterator]();
+}
+
+export function iterate<T>(
+  source: IterableSource<T>,
+  options?: IterateOptions<T, never> & { map?: undefined }
+): AsyncGenerator<SafeResult<Awaited<T>, SafeError>, void, undefined>;
+export function iterate<T, U>(
+  source: IterableSource<T>,
+  options: IterateOptions<T, U>
+): AsyncGenerator<SafeResult<Awaited<U>, SafeError>, void, undefined>;
+export async function* iterate<T, U>(
+  source: IterableSource<T>,
+  options: IterateOptions<T, U> = {}
+): AsyncGenerator<SafeResult<unknown, SafeError>, void, undefined> {
+  const { onError = 'stop', map } = options;
+  const iterator = iteratorOf(source);
+  let finished = false;
+
+  try {
+    for (let index = 0; ; index++) {
+      let step: IteratorResult<T>;
+      try {
+        step = await iterator.next();
+      } catch (err) {
+        finished = true;
+        yield [false, SafeError.from(err), null];
+        return;
+      }
+      if (step.done) {
+        finished = true;
+        return;
+      }
+
+      const item = step.value;
+      const result = await to(promiseFrom(() => (map ? map(item, index) : item)));
+      if (result[0] || onError === 'yield') {
+        yield result;
+      } else if (onError === 'stop') {
+        yield result;
+        return;
+      }
+    }
+  } finally {
+    if (!finished) {
+      await iterator.return?.();
+    }
+  }
+}
+
+export function collect<T>(
+  source: IterableSource<T>,
+  options?: IterateOptions<T, never> & { map?: undefined; onError?: 'stop' | 'skip' }
+): Promise<SafeResult<Array<Awaited<T>>, SafeError>>;
+export function collect<T, U>(
+  source: IterableSource<T>,
+  options: IterateOptions<T, U> & { onError?: 'stop' | 'skip' }
+): Promise<SafeResult<Array<Awaited<U>>, SafeError>>;
+export async function collect<T, U>(
+  source: IterableSource<T>,
+  options: IterateOptions<T, U> & { onError?: 'stop' | 'skip' } = {}
+): Promise<SafeResult<unknown[], SafeError>> {
+  const items: unknown[] = [];
+  for await (const [ok, err, data] of iterate(source, options as IterateOptions<T, U>)) {
+    if (!ok) {
+      return [false, err, null];
+    }
+    items.push(data);
+  }
+  return [true, null, items];
+}
@@ -0,0 +1,107 @@
+import type { SafeError } from './error';
+import { to, sync } from './core';
+import { promiseFrom } from './utils';
+import type { SafeResult } from './types';
+
+export interface MemoizeOptions<A extends unknown[]> {
+  key?: (...args: A) => unknown;
+  ttl?: number;
+  errorTtl?: number;
+  maxSize?: number;
+  now?: () => number;
+}
+
+export interface Memoized<A extends unknown[], T, E> {
+  (...args: A): Promise<SafeResult<T, E | SafeError>>;
+  invalidate(...args: A): void;
+  clear(): void;
+  readonly size: number;
+}
+
+interface Entry<T, E> {
+  promise: Promise<SafeResult<T, E | SafeError>>;
+  expiresAt: number;
+}
+
+// One argument is its own key (by value for primitives, by identity for objects); anything
+// wider has no safe default and needs an explicit `key`.
+function defaultKey(...args: unknown[]): unknown {
+  if (args.length > 1) {
+    throw new TypeError('memoize() needs a key option when called with more than one argument');
+  }
+  return args[0];
+}
+
+export function memoize<A extends [unknown?], T, E = SafeError>(
+  factory: (...args: A) => Promise<SafeResult<T, E>>,
+  options?: MemoizeOptions<A>
+): Memoized<A, T, E>;
+export function memoize<A extends unknown[], T, E = SafeError>(
+  factory: (...args: A) => Promise<SafeResult<T, E>>,
+  options: MemoizeOptions<A> & { key: (...args: A) => unknown }
+): Memoized<A, T, E>;
+export function memoize<A extends unknown[], T, E = SafeError>(
+  factory: (...args: A) => Promise<SafeResult<T, E>>,
+  options: MemoizeOptions<A> = {}
+): Memoized<A, T, E> {
+  const {
+    key = defaultKey,
+    ttl = Infinity,
+    errorTtl = 0,
+    maxSize = Infinity,
+    now = Date.now,
+  } = options;
+  const cache = new Map<unknown, Entry<T, E>>();
+
+  const call = (...args: A): Promise<SafeResult<T, E | SafeError>> => {
+    const [keyed, keyErr, id] = sync(() => key(...args));
+    if (!keyed) {
+      return Promise.resolve([false, keyErr, null]);
+    }
+    const cached = cache.get(id);
+    if (cached && cached.expiresAt > now()) {
+      cache.delete(id);
+      cache.set(id, cached);
+      return cached.promise;
+    }
+
+    const entry: Entry<T, E> = {
+      promise: to(promiseFrom(() => factory(...args))).then(
+        ([settled, thrown, result]) => {
+          const outcome: SafeResult<T, E | SafeError> = settled ? result : [false, thrown, null];
+          if (cache.get(id) === entry) {
+            const lifetime = outcome[0] ? ttl : errorTtl;
+            if (lifetime > 0) {
+              entry.expiresAt = now() + lifetime;
+            } else {
+              cache.delete(id);
+            }
+          }
+          return outcome;
+        }
+      ),
+      expiresAt: Infinity,
+    };
+
+    cache.delete(id);
+    cache.set(id, entry);
+    while (cache.size > maxSize) {
+      cache.delete(cache.keys().next().value);
+    }
+    return entry.promise;
+  };
+
+  return Object.defineProperties(call, {
+    invalidate: {
+      value: (...args: A) => {
+        try {
+          cache.delete(key(...args));
+        } catch {
+          // Nothing can be cached under a key that cannot be computed.
+        }
+      },
+    },
+    clear: { value: () => cache.clear() },
+    size: { get: () => cache.size, enumerable: true },
+  }) as unknown as Memoized<A, T, E>;
+}
@@ -0,0 +1,78 @@
+import { SafeError, isErrorLike } from './error';
+
+export type ErrorRule<T = unknown> =
+  | { instanceOf: abstract new (...args: never[]) => T; map: (err: T) => SafeError }
+  | { test: (err: unknown) => boolean; map: (err: T) => SafeError };
+
+export class ErrorRegistry {
+  private readonly rules: Array<ErrorRule<unknown>> = [];
+
+  register<T>(rule: ErrorRule<T>): () => void {
+    // A rule only ever receives values that passed its own instanceOf / test check.
+    const stored = rule as ErrorRule<unknown>;
+    this.rules.push(stored);
+    return () => {
+      const index = this.rules.indexOf(stored);
+      if (index !== -1) {
+        this.rules.splice(index, 1);
+      }
+    };
+  }
+
+  map(err: unknown): SafeError | undefined {
+    for (const rule of this.rules) {
+      const matches = 'instanceOf' in rule ? err instanceof rule.instanceOf : rule.test(err);
+      if (matches) {
+        return rule.map(err);
+      }
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.rules.length = 0;
+  }
+}
+
+const defaultRegistry = new ErrorRegistry();
+let activeRegistry = defaultRegistry;
+
+export function getErrorRegistry(): ErrorRegistry {
+  return activeRegistry;
+}
+
+export function registerError<T>(rule: ErrorRule<T>): () => void {
+  return activeRegistry.register(rule);
+}
+
+export function useErrorRegistry(registry: ErrorRegistry): () => void {
+  const previous = activeRegistry;
+  activeRegistry = registry;
+  return () => {
+    activeRegistry = previous;
+  };
+}
+
+export const abortErrorRule: ErrorRule<Error> = {
+  test: (err) => (err as { name?: unknown } | null)?.name === 'AbortError',
+  map: (err) => new SafeError(err.message || 'Operation aborted', { code: 'ABORTED', cause: err }),
+};
+
+interface SystemError extends Error {
+  code: string;
+  syscall?: string;
+  path?: string;
+}
+
+export const systemErrorRule: ErrorRule<SystemError> = {
+  test: (err) =>
+    isErrorLike(err) &&
+    typeof (err as SystemError).code === 'string' &&
+    typeof (err as SystemError).syscall === 'string',
+  map: (err) =>
+    new SafeError(err.message, {
+      code: err.code,
+      cause: err,
+      meta: err.path === undefined ? { syscall: err.syscall } : { syscall: err.syscall, path: err.path },
+    }),
+};
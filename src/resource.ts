@@ -0,0 +1,62 @@
+import { SafeError, SafeAggregateError } from './error';
+import { settle } from './utils';
+import type { SafeResult, InputData, InputError } from './types';
+
+type Acquired<R> = R | SafeResult<R, unknown> | PromiseLike<R | SafeResult<R, unknown>>;
+
+type ResourceResult<A, U> = SafeResult<InputData<U>, SafeError | InputError<A> | InputError<U>>;
+
+const disposeSymbol: typeof Symbol.dispose = Symbol.dispose ?? Symbol.for('Symbol.dispose');
+const asyncDisposeSymbol: typeof Symbol.asyncDispose = Symbol.asyncDispose ?? Symbol.for('Symbol.asyncDispose');
+
+function dispose(resource: unknown): unknown {
+  const disposable = resource as Partial<AsyncDisposable & Disposable> | null | undefined;
+  const asyncDispose = disposable?.[asyncDisposeSymbol];
+  if (typeof asyncDispose === 'function') {
+    return asyncDispose.call(disposable);
+  }
+  const syncDispose = disposable?.[disposeSymbol];
+  if (typeof syncDispose === 'function') {
+    return syncDispose.call(disposable);
+  }
+  return undefined;
+}
+
+export function withResource<A extends Acquired<Disposable | AsyncDisposable>, U>(
+  acquire: () => A,
+  use: (resource: InputData<A>) => U
+): Promise<ResourceResult<A, U>>;
+export function withResource<A, U>(
+  acquire: () => A,
+  use: (resource: InputData<A>) => U,
+  release: (resource: InputData<A>) => unknown
+): Promise<ResourceResult<A, U>>;
+export async function withResource(
+  acquire: () => unknown,
+  use: (resource: unknown) => unknown,
+  release: (resource: unknown) => unknown = dispose
+): Promise<SafeResult<unknown, unknown>> {
+  const [acquired, acquireErr, resource] = await settle(acquire);
+  if (!acquired) {
+    return [false, acquireErr, null];
+  }
+
+  const used = await settle(() => use(resource));
+  const [released, releaseErr] = await settle(() => release(resource));
+  if (released) {
+    return used;
+  }
+  if (used[0]) {
+    return [false, releaseErr, null];
+  }
+
+  const releaseError = SafeError.from(releaseErr);
+  return [
+    false,
+    new SafeAggregateError('Failed to release resource after use failed', [used[1], releaseErr], {
+      code: 'RELEASE_FAILED',
+      cause: new SafeError(releaseError.message, { code: releaseError.code, cause: used[1] }),
+    }),
+    null,
+  ];
+}
@@ -0,0 +1,182 @@
+import type { SafeResult } from './types';
+import type { SafeError } from './error';
+
+type Resultish<T, E> = SafeResult<T, E> | Result<T, E>;
+
+export interface MatchHandlers<T, E, A, B> {
+  ok: (data: T) => A;
+  err: (err: E) => B;
+}
+
+function toTuple<T, E>(value: Resultish<T, E>): SafeResult<T, E> {
+  return value instanceof Result ? value.toTuple() : value;
+}
+
+export class Result<T, E = SafeError> {
+  private constructor(private readonly tuple: SafeResult<T, E>) {}
+
+  static from<T, E>(result: SafeResult<T, E>): Result<T, E> {
+    return new Result(result);
+  }
+
+  static ok<T>(data: T): Result<T, never> {
+    return new Result<T, never>([true, null, data]);
+  }
+
+  static err<E>(err: E): Result<never, E> {
+    return new Result<never, E>([false, err, null]);
+  }
+
+  static fromAsync<T, E>(result: Promise<SafeResult<T, E>>): AsyncResult<T, E> {
+    return new AsyncResult(result.then((tuple) => new Result(tuple)));
+  }
+
+  get ok(): boolean {
+    return this.tuple[0];
+  }
+
+  map<U>(fn: (data: T) => U): Result<U, E> {
+    const [ok, err, data] = this.tuple;
+    return ok ? new Result<U, E>([true, null, fn(data)]) : new Result<U, E>([false, err, null]);
+  }
+
+  flatMap<U, F>(fn: (data: T) => Resultish<U, F>): Result<U, E | F> {
+    const [ok, err, data] = this.tuple;
+    return ok ? new Result<U, E | F>(toTuple(fn(data))) : new Result<U, E | F>([false, err, null]);
+  }
+
+  mapErr<F>(fn: (err: E) => F): Result<T, F> {
+    const [ok, err, data] = this.tuple;
+    return ok ? new Result<T, F>([true, null, data]) : new Result<T, F>([false, fn(err), null]);
+  }
+
+  tap(fn: (data: T) => void): Result<T, E> {
+    const [ok, , data] = this.tuple;
+    if (ok) {
+      fn(data);
+    }
+    return this;
+  }
+
+  tapErr(fn: (err: E) => void): Result<T, E> {
+    const [ok, err] = this.tuple;
+    if (!ok) {
+      fn(err);
+    }
+    return this;
+  }
+
+  orElse<U, F>(fn: (err: E) => Resultish<U, F>): Result<T | U, F> {
+    const [ok, err, data] = this.tuple;
+    return ok ? new Result<T | U, F>([true, null, data]) : new Result<T | U, F>(toTuple(fn(err)));
+  }
+
+  match<A, B>(handlers: MatchHandlers<T, E, A, B>): A | B {
+    const [ok, err, data] = this.tuple;
+    return ok ? handlers.ok(data) : handlers.err(err);
+  }
+
+  unwrap(): T {
+    const [ok, err, data] = this.tuple;
+    if (!ok) {
+      throw err;
+    }
+    return data;
+  }
+
+  unwrapOr<U>(defaultValue: U): T | U {
+    const [ok, , data] = this.tuple;
+    return ok ? data : defaultValue;
+  }
+
+  async(): AsyncResult<T, E> {
+    return new AsyncResult(Promise.resolve(this));
+  }
+
+  toTuple(): SafeResult<T, E> {
+    return this.tuple;
+  }
+}
+
+export class AsyncResult<T, E = SafeError> implements PromiseLike<Result<T, E>> {
+  constructor(private readonly promise: Promise<Result<T, E>>) {}
+
+  map<U>(fn: (data: T) => U | Promise<U>): AsyncResult<U, E> {
+    return this.chain(async (result) => {
+      const [ok, err, data] = result.toTuple();
+      return ok ? Result.ok(await fn(data)) : Result.err(err);
+    });
+  }
+
+  flatMap<U, F>(
+    fn: (data: T) => Resultish<U, F> | Promise<Resultish<U, F>>
+  ): AsyncResult<U, E | F> {
+    return this.chain(async (result) => {
+      const [ok, err, data] = result.toTuple();
+      return ok ? Result.from<U, E | F>(toTuple(await fn(data))) : Result.err(err);
+    });
+  }
+
+  mapErr<F>(fn: (err: E) => F | Promise<F>): AsyncResult<T, F> {
+    return this.chain(async (result) => {
+      const [ok, err, data] = result.toTuple();
+      return ok ? Result.ok(data) : Result.err(await fn(err));
+    });
+  }
+
+  tap(fn: (data: T) => void | Promise<void>): AsyncResult<T, E> {
+    return this.chain(async (result) => {
+      const [ok, , data] = result.toTuple();
+      if (ok) {
+        await fn(data);
+      }
+      return result;
+    });
+  }
+
+  tapErr(fn: (err: E) => void | Promise<void>): AsyncResult<T, E> {
+    return this.chain(async (result) => {
+      const [ok, err] = result.toTuple();
+      if (!ok) {
+        await fn(err);
+      }
+      return result;
+    });
+  }
+
+  orElse<U, F>(
+    fn: (err: E) => Resultish<U, F> | Promise<Resultish<U, F>>
+  ): AsyncResult<T | U, F> {
+    return this.chain(async (result) => {
+      const [ok, err, data] = result.toTuple();
+      return ok ? Result.ok(data) : Result.from<T | U, F>(toTuple(await fn(err)));
+    });
+  }
+
+  async match<A, B>(handlers: MatchHandlers<T, E, A | Promise<A>, B | Promise<B>>): Promise<A | B> {
+    return (await this.promise).match(handlers);
+  }
+
+  async unwrap(): Promise<T> {
+    return (await this.promise).unwrap();
+  }
+
+  async unwrapOr<U>(defaultValue: U): Promise<T | U> {
+    return (await this.promise).unwrapOr(defaultValue);
+  }
+
+  async toTuple(): Promise<SafeResult<T, E>> {
+    return (await this.promise).toTuple();
+  }
+
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  private chain<U, F>(fn: (result: Result<T, E>) => Promise<Result<U, F>>): AsyncResult<U, F> {
+    return new AsyncResult(this.promise.then(fn));
+  }
+}
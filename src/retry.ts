@@ -0,0 +1,104 @@
+import { SafeError, SafeAggregateError } from './error';
+import { to } from './core';
+import { promiseFrom } from './utils';
+import type { SafeResult } from './types';
+
+export type Backoff = 'fixed' | 'exponential' | 'jitter' | ((attempt: number) => number);
+
+export interface RetryPolicy {
+  attempts?: number;
+  backoff?: Backoff;
+  delay?: number;
+  factor?: number;
+  maxDelay?: number;
+  shouldRetry?: (err: SafeError, attempt: number) => boolean;
+  signal?: AbortSignal;
+}
+
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const { backoff = 'exponential', delay = 100, factor = 2, maxDelay = Infinity } = policy;
+
+  if (typeof backoff === 'function') {
+    return Math.max(0, backoff(attempt));
+  }
+
+  const exponential = Math.min(delay * Math.pow(factor, attempt - 1), maxDelay);
+  switch (backoff) {
+    case 'fixed':
+      return Math.min(delay, maxDelay);
+    case 'exponential':
+      return exponential;
+    case 'jitter':
+      return Math.random() * exponential;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortedError(errors: SafeError[], signal: AbortSignal): SafeAggregateError {
+  return new SafeAggregateError(
+    `Retry aborted after ${errors.length} attempt(s)`,
+    errors,
+    { code: 'ABORTED', cause: signal.reason }
+  );
+}
+
+export async function retry<T>(
+  factory: (attempt: number, signal?: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = {}
+): Promise<SafeResult<T, SafeAggregateError>> {
+  const { attempts = 3, shouldRetry = () => true, signal } = policy;
+  const errors: SafeError[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (signal?.aborted) {
+      return [false, abortedError(errors, signal), null];
+    }
+
+    const [ok, err, data] = await to(promiseFrom(() => factory(attempt, signal)), { signal });
+    if (ok) {
+      return [true, null, data];
+    }
+    if (signal?.aborted) {
+      return [false, abortedError(errors, signal), null];
+    }
+
+    errors.push(err);
+    if (attempt === attempts || !shouldRetry(err, attempt)) {
+      break;
+    }
+
+    const completed = await sleep(backoffDelay(policy, attempt), signal);
+    if (!completed && signal) {
+      return [false, abortedError(errors, signal), null];
+    }
+  }
+
+  const last = errors[errors.length - 1];
+  return [
+    false,
+    new SafeAggregateError(
+      `Retry gave up after ${errors.length} attempt(s): ${last?.message ?? 'no attempts made'}`,
+      errors,
+      { code: 'RETRY_EXHAUSTED', cause: last }
+    ),
+    null,
+  ];
+}
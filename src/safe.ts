@@ -0,0 +1,57 @@
+import { SafeError } from './error';
+import { to, sync } from './core';
+import { isPromiseLike, flatten } from './utils';
+import type { SafeResult, ErrorTransformer, SyncOptions } from './types';
+
+export type SafeReturn<R, E = SafeError> = R extends PromiseLike<infer U>
+  ? Promise<SafeResult<U, E>>
+  : SafeResult<R, E>;
+
+type TupleReturn<E> = SafeResult<unknown, E> | Promise<SafeResult<unknown, E>>;
+
+export type SafeMethodDecorator<E> = <This, A extends unknown[], R extends TupleReturn<E>>(
+  target: (this: This, ...args: A) => R,
+  context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>
+) => (this: This, ...args: A) => R;
+
+function isAsyncFunction(fn: Function): boolean {
+  return fn.constructor?.name === 'AsyncFunction';
+}
+
+function call<E>(
+  fn: (...args: unknown[]) => unknown,
+  self: unknown,
+  args: unknown[],
+  options: ErrorTransformer<E> | SyncOptions<E> | undefined
+): SafeResult<unknown, E> | Promise<SafeResult<unknown, E>> {
+  const [ok, err, value] = sync<unknown, E>(() => fn.apply(self, args), options);
+  if (ok && isPromiseLike(value)) {
+    return to<unknown, E>(Promise.resolve(value), options);
+  }
+  const result: SafeResult<unknown, E> = ok ? [true, null, value] : [false, err, null];
+  return isAsyncFunction(fn) ? Promise.resolve(result) : result;
+}
+
+export function safe<E = SafeError>(options?: SyncOptions<E>): SafeMethodDecorator<E>;
+export function safe<This, A extends unknown[], R, E = SafeError>(
+  fn: (this: This, ...args: A) => R,
+  options?: ErrorTransformer<E> | SyncOptions<E>
+): (this: This, ...args: A) => SafeReturn<R, E>;
+export function safe<E>(
+  fnOrOptions?: ((...args: unknown[]) => unknown) | SyncOptions<E>,
+  options?: ErrorTransformer<E> | SyncOptions<E>
+): unknown {
+  if (typeof fnOrOptions === 'function') {
+    const fn = fnOrOptions;
+    return function (this: unknown, ...args: unknown[]) {
+      return call(fn, this, args, options);
+    };
+  }
+
+  const decoratorOptions = fnOrOptions;
+  return (target: (...args: unknown[]) => unknown) =>
+    function (this: unknown, ...args: unknown[]) {
+      const result = call(target, this, args, decoratorOptions);
+      return isPromiseLike(result) ? result.then(flatten) : flatten(result);
+    };
+}
@@ -0,0 +1,295 @@
+import { SafeError, SafeAggregateError, PipeError, ValidationError, CollectError, HttpError, isSafeError } from './error';
+import type { SafeResult } from './types';
+
+export const SERIALIZE_VERSION = 1;
+
+export interface SerializeOptions {
+  stack?: boolean;
+}
+
+type Encoded = null | boolean | number | string | Encoded[] | { [key: string]: Encoded };
+
+interface EncodedError {
+  name: string;
+  message: string;
+  safe: boolean;
+  code?: string;
+  stack?: string;
+  cause?: Encoded;
+  props?: Record<string, Encoded>;
+}
+
+const ERROR_CLASSES: Record<string, { prototype: SafeError }> = {
+  SafeError,
+  SafeAggregateError,
+  PipeError,
+  ValidationError,
+  CollectError,
+  HttpError,
+};
+
+const ERROR_FIELDS = new Set(['name', 'message', 'stack', 'cause', 'code']);
+
+class MalformedError extends Error {}
+
+function tagged(tag: string, value: Encoded): Encoded {
+  return { $t: tag, v: value };
+}
+
+function encodeNumber(value: number): Encoded {
+  if (Number.isNaN(value) || !Number.isFinite(value) || Object.is(value, -0)) {
+    return tagged('number', String(Object.is(value, -0) ? '-0' : value));
+  }
+  return value;
+}
+
+function encoder(options: SerializeOptions) {
+  const ids = new Map<object, number>();
+
+  const track = (value: object): Encoded | null => {
+    const id = ids.get(value);
+    if (id !== undefined) {
+      return tagged('ref', id);
+    }
+    ids.set(value, ids.size);
+    return null;
+  };
+
+  const encodeError = (error: Error): Encoded => {
+    const encoded: EncodedError = {
+      name: error.name,
+      message: error.message,
+      safe: isSafeError(error),
+    };
+    const { code, cause } = error as { code?: unknown; cause?: unknown };
+    if (typeof code === 'string') {
+      encoded.code = code;
+    }
+    if (options.stack && error.stack) {
+      encoded.stack = error.stack;
+    }
+    if (cause !== undefined) {
+      encoded.cause = encode(cause);
+    }
+    const props: Record<string, Encoded> = {};
+    for (const key of Object.keys(error)) {
+      if (!ERROR_FIELDS.has(key)) {
+        setOwn(props, key, encode((error as unknown as Record<string, unknown>)[key]));
+      }
+    }
+    if (Object.keys(props).length > 0) {
+      encoded.props = props;
+    }
+    return tagged('error', encoded as unknown as Encoded);
+  };
+
+  const encode = (value: unknown): Encoded => {
+    switch (typeof value) {
+      case 'undefined':
+      case 'function':
+      case 'symbol':
+        return tagged('undefined', null);
+      case 'bigint':
+        return tagged('bigint', value.toString());
+      case 'number':
+        return encodeNumber(value);
+      case 'string':
+      case 'boolean':
+        return value;
+    }
+    if (value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return tagged('date', Number.isNaN(value.getTime()) ? null : value.toISOString());
+    }
+
+    const obj = value as object;
+    const ref = track(obj);
+    if (ref) {
+      return ref;
+    }
+
+    if (Array.isArray(obj)) {
+      return obj.map(encode);
+    }
+    if (obj instanceof Map) {
+      return tagged('map', Array.from(obj, ([k, v]) => [encode(k), encode(v)]));
+    }
+    if (obj instanceof Set) {
+      return tagged('set', Array.from(obj, encode));
+    }
+    if (obj instanceof Error || isSafeError(obj)) {
+      return encodeError(obj);
+    }
+
+    const record: Record<string, Encoded> = {};
+    for (const [key, item] of Object.entries(obj)) {
+      setOwn(record, key, encode(item));
+    }
+    return '$t' in record ? tagged('object', record) : record;
+  };
+
+  return encode;
+}
+
+function setOwn(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new MalformedError(message);
+  }
+}
+
+function decoder() {
+  const refs: unknown[] = [];
+
+  const decodeError = (raw: unknown): Error => {
+    assert(isRecord(raw), 'error payload must be an object');
+    const { name, message, safe, code, stack, cause, props } = raw;
+    assert(typeof name === 'string' && typeof message === 'string', 'error must have a name and message');
+    assert(code === undefined || typeof code === 'string', 'error code must be a string');
+    assert(stack === undefined || typeof stack === 'string', 'error stack must be a string');
+    assert(props === undefined || isRecord(props), 'error props must be an object');
+
+    const prototype = safe === true
+      ? (ERROR_CLASSES[name] ?? SafeError).prototype
+      : Error.prototype;
+    const error = Object.create(prototype) as Error & Record<string, unknown>;
+    refs.push(error);
+
+    Object.assign(error, { name, message });
+    if (code !== undefined) {
+      error.code = code;
+    }
+    error.stack = stack;
+    if ('cause' in raw) {
+      error.cause = decode(cause);
+    }
+    for (const [key, item] of Object.entries(props ?? {})) {
+      setOwn(error, key, decode(item));
+    }
+    return error;
+  };
+
+  const decodeTagged = (tag: unknown, v: unknown): unknown => {
+    switch (tag) {
+      case 'undefined':
+        return undefined;
+      case 'number':
+        assert(typeof v === 'string', 'number payload must be a string');
+        return Number(v);
+      case 'bigint':
+        assert(typeof v === 'string' && /^-?\d+$/.test(v), 'bigint payload must be an integer string');
+        return BigInt(v);
+      case 'date': {
+        if (v === null) {
+          return new Date(NaN);
+        }
+        assert(typeof v === 'string', 'date payload must be a string or null');
+        const date = new Date(v);
+        assert(!Number.isNaN(date.getTime()), 'date payload must be a valid ISO string');
+        return date;
+      }
+      case 'ref':
+        assert(typeof v === 'number' && v >= 0 && v < refs.length, 'ref points to an unknown value');
+        return refs[v];
+      case 'map': {
+        assert(Array.isArray(v), 'map payload must be an array');
+        const map = new Map<unknown, unknown>();
+        refs.push(map);
+        for (const entry of v) {
+          assert(Array.isArray(entry) && entry.length === 2, 'map entries must be pairs');
+          map.set(decode(entry[0]), decode(entry[1]));
+        }
+        return map;
+      }
+      case 'set': {
+        assert(Array.isArray(v), 'set payload must be an array');
+        const set = new Set<unknown>();
+        refs.push(set);
+        for (const item of v) {
+          set.add(decode(item));
+        }
+        return set;
+      }
+      case 'error':
+        return decodeError(v);
+      case 'object':
+        assert(isRecord(v), 'object payload must be an object');
+        return decodeRecord(v);
+      default:
+        throw new MalformedError(`unknown tag ${JSON.stringify(tag)}`);
+    }
+  };
+
+  const decodeRecord = (raw: Record<string, unknown>): Record<string, unknown> => {
+    const record: Record<string, unknown> = {};
+    refs.push(record);
+    for (const [key, item] of Object.entries(raw)) {
+      setOwn(record, key, decode(item));
+    }
+    return record;
+  };
+
+  const decode = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      refs.push(array);
+      for (const item of value) {
+        array.push(decode(item));
+      }
+      return array;
+    }
+    if (isRecord(value)) {
+      return '$t' in value ? decodeTagged(value.$t, value.v) : decodeRecord(value);
+    }
+    return value;
+  };
+
+  return decode;
+}
+
+export function serialize<T, E>(result: SafeResult<T, E>, options: SerializeOptions = {}): string {
+  const encode = encoder(options);
+  const [ok, err, data] = result;
+  const envelope = ok
+    ? { v: SERIALIZE_VERSION, ok: true, data: encode(data) }
+    : { v: SERIALIZE_VERSION, ok: false, error: encode(SafeError.from(err)) };
+  return JSON.stringify(envelope);
+}
+
+export function deserialize<T>(str: string): SafeResult<T, SafeError> {
+  try {
+    const envelope: unknown = JSON.parse(str);
+    const decode = decoder();
+
+    assert(isRecord(envelope), 'envelope must be an object');
+    assert(envelope.v === SERIALIZE_VERSION, `unsupported envelope version ${String(envelope.v)}`);
+
+    if (envelope.ok === true) {
+      assert('data' in envelope, 'success envelope must have data');
+      return [true, null, decode(envelope.data) as T];
+    }
+
+    assert(envelope.ok === false, 'envelope ok flag must be a boolean');
+    const error = decode(envelope.error);
+    assert(isSafeError(error), 'error envelope must hold a SafeError');
+    return [false, error, null];
+  } catch (err) {
+    return [
+      false,
+      new SafeError(`Malformed SafeResult envelope: ${SafeError.from(err).message}`, {
+        code: 'MALFORMED',
+        cause: err,
+      }),
+      null,
+    ];
+  }
+}
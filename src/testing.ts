@@ -0,0 +1,75 @@
+import { format, isSafeResult } from './utils';
+import type { SafeResult } from './types';
+
+export interface MatcherContext {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+}
+
+export interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+  actual?: unknown;
+  expected?: unknown;
+}
+
+export interface SafeResultMatchers<R = unknown> {
+  toBeOk(value?: unknown): R;
+  toBeErr(code?: string): R;
+  toBeErrWith(message: string | RegExp): R;
+}
+
+function formatResult(result: SafeResult<unknown, unknown>): string {
+  const [ok, err, data] = result;
+  try {
+    if (ok || err instanceof Error) {
+      return format(result as SafeResult<unknown, Error>);
+    }
+  } catch {
+    // BigInt or circular data cannot go through JSON.stringify.
+  }
+  return ok ? `[OK] data: ${String(data)}` : `[ERR] error: ${String(err)}`;
+}
+
+function show(received: unknown): string {
+  return isSafeResult(received) ? formatResult(received) : `${String(received)} (not a SafeResult)`;
+}
+
+function result(
+  context: MatcherContext,
+  pass: boolean,
+  received: unknown,
+  expected: () => string
+): MatcherResult {
+  return {
+    pass,
+    message: () => `expected ${show(received)} ${context.isNot ? 'not ' : ''}to be ${expected()}`,
+  };
+}
+
+function toBeOk(this: MatcherContext, received: unknown, ...value: [] | [unknown]): MatcherResult {
+  const isOk = isSafeResult(received) && received[0];
+  if (value.length === 0) {
+    return result(this, isOk, received, () => '[OK]');
+  }
+  const pass = isOk && this.equals(received[2], value[0]);
+  return result(this, pass, received, () => formatResult([true, null, value[0]]));
+}
+
+function toBeErr(this: MatcherContext, received: unknown, code?: string): MatcherResult {
+  const isErr = isSafeResult(received) && !received[0];
+  if (code === undefined) {
+    return result(this, isErr, received, () => '[ERR]');
+  }
+  const pass = isErr && (received[1] as { code?: unknown } | null)?.code === code;
+  return result(this, pass, received, () => `[ERR] with code ${JSON.stringify(code)}`);
+}
+
+function toBeErrWith(this: MatcherContext, received: unknown, message: string | RegExp): MatcherResult {
+  const isErr = isSafeResult(received) && !received[0];
+  const actual = isErr ? String((received[1] as { message?: unknown } | null)?.message ?? received[1]) : '';
+  const pass = isErr && (typeof message === 'string' ? actual.includes(message) : message.test(actual));
+  return result(this, pass, received, () => `[ERR] with message matching ${String(message)}`);
+}
+
+export const matchers = { toBeOk, toBeErr, toBeErrWith };
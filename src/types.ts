@@ -1,4 +1,4 @@
-import type { SafeError } from './error';
+import type { SafeError, ErrorContext } from './error';
 
 export type SuccessResult<T> = [true, null, T];
 
@@ -7,3 +7,45 @@ export type ErrorResult<E = SafeError> = [false, E, null];
 export type SafeResult<T, E = SafeError> = SuccessResult<T> | ErrorResult<E>;
 
 export type ErrorTransformer<E> = (err: unknown) => E;
+
+type DataOf<R> = R extends SuccessResult<infer T> ? T : R extends ErrorResult<unknown> ? never : R;
+
+type ErrorOf<R> = R extends ErrorResult<infer E> ? E : R extends SuccessResult<unknown> ? never : SafeError;
+
+export type InputData<I> = DataOf<Awaited<I>>;
+
+export type InputError<I> = ErrorOf<Awaited<I>>;
+
+type OkOf<R> = R extends SuccessResult<infer T> ? T : never;
+
+type ErrOf<R> = R extends ErrorResult<infer E> ? E : never;
+
+export type OkType<R> = OkOf<Awaited<R>>;
+
+export type ErrType<R> = ErrOf<Awaited<R>>;
+
+export type ResultOf<F extends (...args: any[]) => unknown> = Awaited<ReturnType<F>>;
+
+export type Unwrapped<R> = R extends (...args: any[]) => infer Return ? OkType<Return> : OkType<R>;
+
+export interface SyncOptions<E> {
+  errorTransformer?: ErrorTransformer<E>;
+  signal?: AbortSignal;
+  context?: ErrorContext;
+  label?: string;
+}
+
+export interface SafeOptions<E> extends SyncOptions<E> {
+  timeout?: number;
+}
+
+export interface ExtraCallInfo {
+  callCount: number;
+  err: unknown;
+  results: unknown[];
+}
+
+export interface FromCallbackOptions<E> extends SafeOptions<E> {
+  multi?: boolean;
+  onExtraCall?: (info: ExtraCallInfo) => void;
+}
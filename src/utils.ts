@@ -1,5 +1,49 @@
-import type { SafeResult } from './types';
-import { SafeError } from './error';
+import type { SafeResult, SuccessResult, ErrorResult, InputData } from './types';
+import type { MatchHandlers } from './result';
+import { SafeError, PipeError, isErrorLike } from './error';
+import type { ErrorContext } from './error';
+import { captured } from './hooks';
+import { to } from './core';
+
+export function isSafeResult(value: unknown): value is SafeResult<unknown, unknown> {
+  if (!Array.isArray(value) || value.length !== 3) {
+    return false;
+  }
+  const [ok, err, data] = value;
+  return ok === true ? err === null : ok === false && data === null;
+}
+
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
+
+// Runs the thunk inside the executor so a synchronous throw becomes a rejection.
+export function promiseFrom<T>(fn: () => T | PromiseLike<T>): Promise<T> {
+  return new Promise<T>((resolve) => resolve(fn()));
+}
+
+export function flatten<E>(result: SafeResult<unknown, E>): SafeResult<unknown, E> {
+  return result[0] && isSafeResult(result[2]) ? (result[2] as SafeResult<unknown, E>) : result;
+}
+
+// Shared by the combinators: a thunk that returns (or resolves to) a SafeResult yields that
+// result instead of a success wrapping it.
+export function settle(fn: () => unknown): Promise<SafeResult<unknown, unknown>> {
+  return to(promiseFrom(fn)).then(flatten);
+}
+
+export function isOk<T, E>(result: SafeResult<T, E>): result is SuccessResult<T> {
+  return result[0];
+}
+
+export function isErr<T, E>(result: SafeResult<T, E>): result is ErrorResult<E> {
+  return !result[0];
+}
+
+export function match<T, E, A, B>(result: SafeResult<T, E>, handlers: MatchHandlers<T, E, A, B>): A | B {
+  const [ok, err, data] = result;
+  return ok ? handlers.ok(data) : handlers.err(err);
+}
 
 export function or<T, E>(result: SafeResult<T, E>, defaultValue: T): T {
   const [ok, , data] = result;
@@ -17,22 +61,148 @@ export function map<T, U, E>(
   return [false, err, null];
 }
 
-export async function pipe<T, E = SafeError>(
+type Step<A, R> = (value: A) => R;
+
+export function pipe<T>(initial: T): Promise<SafeResult<T, PipeError>>;
+export function pipe<T, R1>(
+  initial: T,
+  f1: Step<T, R1>
+): Promise<SafeResult<InputData<R1>, PipeError>>;
+export function pipe<T, R1, R2>(
+  initial: T,
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>
+): Promise<SafeResult<InputData<R2>, PipeError>>;
+export function pipe<T, R1, R2, R3>(
+  initial: T,
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>,
+  f3: Step<InputData<R2>, R3>
+): Promise<SafeResult<InputData<R3>, PipeError>>;
+export function pipe<T, R1, R2, R3, R4>(
+  initial: T,
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>,
+  f3: Step<InputData<R2>, R3>,
+  f4: Step<InputData<R3>, R4>
+): Promise<SafeResult<InputData<R4>, PipeError>>;
+export function pipe<T, R1, R2, R3, R4, R5>(
+  initial: T,
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>,
+  f3: Step<InputData<R2>, R3>,
+  f4: Step<InputData<R3>, R4>,
+  f5: Step<InputData<R4>, R5>
+): Promise<SafeResult<InputData<R5>, PipeError>>;
+export function pipe<T, R1, R2, R3, R4, R5, R6>(
+  initial: T,
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>,
+  f3: Step<InputData<R2>, R3>,
+  f4: Step<InputData<R3>, R4>,
+  f5: Step<InputData<R4>, R5>,
+  f6: Step<InputData<R5>, R6>
+): Promise<SafeResult<InputData<R6>, PipeError>>;
+export function pipe<T, R1, R2, R3, R4, R5, R6, R7>(
   initial: T,
-  ...fns: Array<(value: unknown) => Promise<unknown>>
-): Promise<SafeResult<T, E>> {
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>,
+  f3: Step<InputData<R2>, R3>,
+  f4: Step<InputData<R3>, R4>,
+  f5: Step<InputData<R4>, R5>,
+  f6: Step<InputData<R5>, R6>,
+  f7: Step<InputData<R6>, R7>
+): Promise<SafeResult<InputData<R7>, PipeError>>;
+export function pipe<T, R1, R2, R3, R4, R5, R6, R7, R8>(
+  initial: T,
+  f1: Step<T, R1>,
+  f2: Step<InputData<R1>, R2>,
+  f3: Step<InputData<R2>, R3>,
+  f4: Step<InputData<R3>, R4>,
+  f5: Step<InputData<R4>, R5>,
+  f6: Step<InputData<R5>, R6>,
+  f7: Step<InputData<R6>, R7>,
+  f8: Step<InputData<R7>, R8>
+): Promise<SafeResult<InputData<R8>, PipeError>>;
+export function pipe<T>(
+  initial: T,
+  ...fns: Array<Step<T, T | Promise<T> | SafeResult<T, unknown> | Promise<SafeResult<T, unknown>>>>
+): Promise<SafeResult<T, PipeError>>;
+export async function pipe(
+  initial: unknown,
+  ...fns: Array<Step<any, unknown>>
+): Promise<SafeResult<unknown, PipeError>> {
+  const startedAt = Date.now();
   let current: unknown = initial;
-  
-  for (const fn of fns) {
+
+  for (const [step, fn] of fns.entries()) {
+    let failure: { cause: unknown } | null = null;
     try {
-      current = await fn(current);
+      const output = await fn(current);
+      if (isSafeResult(output)) {
+        const [ok, err, data] = output;
+        if (ok) {
+          current = data;
+        } else {
+          failure = { cause: err };
+        }
+      } else {
+        current = output;
+      }
     } catch (err) {
-      const error = SafeError.from(err) as E;
-      return [false, error, null];
+      failure = { cause: err };
+    }
+
+    if (failure) {
+      const error = SafeError.from(failure.cause);
+      return captured(
+        new PipeError(error.message, step, { cause: failure.cause, code: error.code }),
+        'pipe',
+        undefined,
+        startedAt
+      );
     }
   }
-  
-  return [true, null, current as T];
+
+  return [true, null, current];
+}
+
+export function withContext<T, E>(
+  result: SafeResult<T, E>,
+  context: ErrorContext
+): SafeResult<T, SafeError> {
+  const [ok, err, data] = result;
+  if (ok) {
+    return [true, null, data];
+  }
+  return [false, SafeError.wrap(err, context), null];
+}
+
+function formatMeta(meta: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(meta);
+  } catch {
+    return String(meta);
+  }
+}
+
+function describeError(err: Error): string {
+  const layers: string[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = err;
+  let previous: string | undefined;
+
+  while (isErrorLike(current) && !seen.has(current)) {
+    seen.add(current);
+    const { message, meta, cause } = current as SafeError;
+    if (message !== previous) {
+      layers.push(meta ? `${message} ${formatMeta(meta)}` : message);
+    }
+    previous = message;
+    current = cause;
+  }
+
+  return layers.join(': ');
 }
 
 export function format<T, E extends Error>(result: SafeResult<T, E>): string {
@@ -40,7 +210,7 @@ export function format<T, E extends Error>(result: SafeResult<T, E>): string {
   if (ok) {
     return `[OK] data: ${JSON.stringify(data)}`;
   }
-  return `[ERR] error: ${err.message}`;
+  return `[ERR] error: ${describeError(err)}`;
 }
 
 export function parse<T, E = SafeError>(str: string): SafeResult<T, E> {
@@ -0,0 +1,101 @@
+import { SafeError, ValidationError } from './error';
+import type { ValidationIssue } from './error';
+import type { SafeResult } from './types';
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input'];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output'];
+}
+
+export interface ValidateOptions {
+  accumulate?: boolean;
+}
+
+function toIssues(issues: ReadonlyArray<StandardSchemaV1.Issue>, accumulate: boolean): ValidationIssue[] {
+  const normalized = issues.map(({ message, path = [] }) => ({
+    message,
+    path: path.map((segment) => (typeof segment === 'object' ? segment.key : segment)),
+  }));
+  return accumulate ? normalized : normalized.slice(0, 1);
+}
+
+function toResult<S extends StandardSchemaV1>(
+  result: StandardSchemaV1.Result<StandardSchemaV1.InferOutput<S>>,
+  options: ValidateOptions
+): SafeResult<StandardSchemaV1.InferOutput<S>, ValidationError> {
+  if (result.issues) {
+    return [false, new ValidationError(toIssues(result.issues, options.accumulate ?? false)), null];
+  }
+  return [true, null, result.value];
+}
+
+export async function validate<S extends StandardSchemaV1>(
+  value: unknown,
+  schema: S,
+  options: ValidateOptions = {}
+): Promise<SafeResult<StandardSchemaV1.InferOutput<S>, ValidationError | SafeError>> {
+  try {
+    const result = await schema['~standard'].validate(value);
+    return toResult<S>(result, options);
+  } catch (err) {
+    return [false, SafeError.from(err), null];
+  }
+}
+
+export function validateSync<S extends StandardSchemaV1>(
+  value: unknown,
+  schema: S,
+  options: ValidateOptions = {}
+): SafeResult<StandardSchemaV1.InferOutput<S>, ValidationError | SafeError> {
+  try {
+    const result = schema['~standard'].validate(value);
+    if (result instanceof Promise) {
+      result.catch(() => {});
+      return [false, new SafeError('Schema validation is asynchronous; use validate()', { code: 'ASYNC_SCHEMA' }), null];
+    }
+    return toResult<S>(result, options);
+  } catch (err) {
+    return [false, SafeError.from(err), null];
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { arbSafeError, arbSafeResult } from '../src/arbitraries';
+import { matchers, type SafeResultMatchers } from '../src/testing';
+import { SafeError } from '../src/error';
+import { isSafeResult, format } from '../src/utils';
+import { all } from '../src/combinators';
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends SafeResultMatchers<T> {}
+}
+
+expect.extend(matchers);
+
+describe('arbitraries', () => {
+  /**
+   * **Feature: arbitraries, Property 1: 生成的 SafeError 带有错误链**
+   * *For any* generated SafeError, the cause chain SHALL contain at most `maxDepth + 1`
+   * SafeErrors and end in `undefined` or a plain Error.
+   */
+  it('Property 1: arbSafeError builds bounded cause chains', () => {
+    fc.assert(
+      fc.property(arbSafeError({ maxDepth: 2, codes: ['A', 'B'] }), (err) => {
+        let depth = 0;
+        let current: unknown = err;
+        while (current instanceof SafeError) {
+          expect(current.code === undefined || ['A', 'B'].includes(current.code)).toBe(true);
+          depth++;
+          current = current.cause;
+        }
+        expect(depth).toBeGreaterThanOrEqual(1);
+        expect(depth).toBeLessThanOrEqual(3);
+        expect(current === undefined || current instanceof Error).toBe(true);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: arbitraries, Property 2: 生成的结果总是合法元组**
+   * *For any* generated SafeResult, it SHALL satisfy `isSafeResult` and match exactly one of
+   * `toBeOk` / `toBeErr`.
+   */
+  it('Property 2: arbSafeResult generates well-formed tuples', () => {
+    fc.assert(
+      fc.property(arbSafeResult(fc.integer()), (result) => {
+        expect(isSafeResult(result)).toBe(true);
+        expect(typeof format(result)).toBe('string');
+        if (result[0]) {
+          expect(result).toBeOk(result[2]);
+          expect(result).not.toBeErr();
+        } else {
+          expect(result).toBeErr();
+          expect(result).not.toBeOk();
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should property-test combinators', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(arbSafeResult(fc.integer())), async (results) => {
+        const failure = results.find((result) => !result[0]);
+        const combined = await all(results);
+
+        if (failure) {
+          expect(combined).toBeErr();
+          expect(combined[1]).toBe(failure[1]);
+        } else {
+          expect(combined).toBeOk(results.map((result) => result[2]));
+        }
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
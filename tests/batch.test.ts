@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { mapConcurrent } from '../src/batch';
+import { SafeError } from '../src/error';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('mapConcurrent()', () => {
+  /**
+   * **Feature: batch, Property 1: 结果按输入顺序返回**
+   * *For any* list of items and failure flags, mapConcurrent SHALL return one SafeResult
+   * per item in input order, and the summary counts SHALL match the outcomes.
+   */
+  it('Property 1: results keep input order and summary counts match', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.tuple(fc.integer(), fc.boolean(), fc.nat({ max: 3 })), { maxLength: 20 }),
+        fc.integer({ min: 1, max: 5 }),
+        async (items, concurrency) => {
+          const { results, succeeded, failed, skipped } = await mapConcurrent(
+            items,
+            async ([value, shouldFail, wait]) => {
+              await new Promise((resolve) => setTimeout(resolve, wait));
+              if (shouldFail) {
+                throw new Error(`failed ${value}`);
+              }
+              return value * 2;
+            },
+            { concurrency }
+          );
+
+          expect(results).toHaveLength(items.length);
+          items.forEach(([value, shouldFail], i) => {
+            const [ok, err, data] = results[i]!;
+            expect(ok).toBe(!shouldFail);
+            if (shouldFail) {
+              expect(err?.message).toBe(`failed ${value}`);
+            } else {
+              expect(data).toBe(value * 2);
+            }
+          });
+          expect(failed).toBe(items.filter(([, shouldFail]) => shouldFail).length);
+          expect(succeeded).toBe(items.length - failed);
+          expect(skipped).toBe(0);
+
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  /**
+   * **Feature: batch, Property 2: 并发数不超过上限**
+   * *For any* concurrency limit C, no more than C calls SHALL be in flight at once.
+   */
+  it('Property 2: never exceeds the concurrency limit', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 20 }),
+        fc.integer({ min: 1, max: 5 }),
+        async (count, concurrency) => {
+          let active = 0;
+          let peak = 0;
+
+          await mapConcurrent(
+            Array.from({ length: count }, (_, i) => i),
+            async (i) => {
+              active++;
+              peak = Math.max(peak, active);
+              await tick();
+              active--;
+              return i;
+            },
+            { concurrency }
+          );
+
+          expect(peak).toBeLessThanOrEqual(concurrency);
+
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should skip remaining items with SKIPPED after the first failure in stopOnError mode', async () => {
+    const started: number[] = [];
+    const { results, succeeded, failed, skipped } = await mapConcurrent(
+      [0, 1, 2, 3, 4],
+      async (i) => {
+        started.push(i);
+        if (i === 1) {
+          throw new Error('boom');
+        }
+        return i;
+      },
+      { concurrency: 1, stopOnError: true }
+    );
+
+    expect(started).toEqual([0, 1]);
+    expect(succeeded).toBe(1);
+    expect(failed).toBe(1);
+    expect(skipped).toBe(3);
+    for (const [ok, err] of results.slice(2)) {
+      expect(ok).toBe(false);
+      expect(err).toBeInstanceOf(SafeError);
+      expect(err?.code).toBe('SKIPPED');
+      expect((err?.cause as SafeError).message).toBe('boom');
+    }
+  });
+
+  it('should mark items not yet started as ABORTED when the signal fires', async () => {
+    const controller = new AbortController();
+    const { results, succeeded, skipped } = await mapConcurrent(
+      [0, 1, 2, 3],
+      async (i) => {
+        if (i === 1) {
+          controller.abort();
+        }
+        return i;
+      },
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(succeeded).toBe(2);
+    expect(skipped).toBe(2);
+    expect(results[2]?.[1]?.code).toBe('ABORTED');
+    expect(results[3]?.[1]?.code).toBe('ABORTED');
+  });
+
+  it('should reject invalid concurrency values without running any item', async () => {
+    for (const concurrency of [NaN, 0, -1, 1.5]) {
+      const fn = vi.fn((i: number) => i);
+      const { results, succeeded, skipped } = await mapConcurrent([0, 1, 2], fn, { concurrency });
+
+      expect(fn).not.toHaveBeenCalled();
+      expect(succeeded).toBe(0);
+      expect(skipped).toBe(3);
+      expect(results).toHaveLength(3);
+      for (const [ok, err] of results) {
+        expect(ok).toBe(false);
+        expect(err?.code).toBe('INVALID_CONCURRENCY');
+      }
+    }
+  });
+
+  it('should capture synchronous throws per item', async () => {
+    const { results } = await mapConcurrent([1], () => {
+      throw new Error('sync');
+    });
+    expect(results[0]?.[0]).toBe(false);
+    expect(results[0]?.[1]?.message).toBe('sync');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { createBreaker } from '../src/breaker';
+import { to } from '../src/core';
+import { SafeError } from '../src/error';
+import type { SafeResult } from '../src/types';
+
+function fakeClock() {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+const fail = (): Promise<SafeResult<never>> => to(Promise.reject(new Error('down')));
+const succeed = (): Promise<SafeResult<string>> => to(Promise.resolve('up'));
+
+describe('createBreaker()', () => {
+  /**
+   * **Feature: circuit-breaker, Property 1: 连续失败达到阈值后快速失败**
+   * *For any* threshold N, the breaker SHALL stay closed for N - 1 consecutive failures,
+   * open on the Nth, and then fail fast with `CIRCUIT_OPEN` without calling the factory.
+   */
+  it('Property 1: opens after the failure threshold and fails fast', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 10 }), async (failureThreshold) => {
+        const factory = vi.fn(fail);
+        const breaker = createBreaker(factory, { failureThreshold, now: fakeClock().now });
+
+        for (let i = 1; i < failureThreshold; i++) {
+          await breaker();
+          expect(breaker.state).toBe('closed');
+        }
+        await breaker();
+        expect(breaker.state).toBe('open');
+
+        const [ok, err] = await breaker();
+        expect(ok).toBe(false);
+        expect(err).toBeInstanceOf(SafeError);
+        expect((err as SafeError).code).toBe('CIRCUIT_OPEN');
+        expect(factory).toHaveBeenCalledTimes(failureThreshold);
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should reset the failure count after a success', async () => {
+    const responses = [fail, fail, succeed, fail, fail];
+    const breaker = createBreaker(() => responses.shift()!(), { failureThreshold: 3 });
+
+    for (let i = 0; i < 5; i++) {
+      await breaker();
+    }
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should half-open after resetTimeout and close on a successful trial', async () => {
+    const clock = fakeClock();
+    let healthy = false;
+    const changes: string[] = [];
+    const breaker = createBreaker(() => (healthy ? succeed() : fail()), {
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      now: clock.now,
+      onStateChange: (state, previous) => changes.push(`${previous}->${state}`),
+    });
+
+    await breaker();
+    clock.advance(999);
+    expect((await breaker())[1]).toMatchObject({ code: 'CIRCUIT_OPEN' });
+
+    clock.advance(1);
+    healthy = true;
+    expect(await breaker()).toEqual([true, null, 'up']);
+    expect(breaker.state).toBe('closed');
+    expect(changes).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  it('should reopen when the trial fails and limit concurrent trials', async () => {
+    const clock = fakeClock();
+    let release!: (result: SafeResult<never>) => void;
+    const factory = vi.fn(fail);
+    const breaker = createBreaker(factory, { failureThreshold: 1, resetTimeout: 10, halfOpenMax: 1, now: clock.now });
+
+    await breaker();
+    clock.advance(10);
+    factory.mockImplementationOnce(() => new Promise((resolve) => { release = resolve; }));
+
+    const trial = breaker();
+    const [, rejected] = await breaker();
+    expect((rejected as SafeError).code).toBe('CIRCUIT_OPEN');
+
+    release([false, new SafeError('still down'), null]);
+    await trial;
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should ignore errors rejected by isFailure', async () => {
+    const notFound = () => to(Promise.reject(new SafeError('missing', { code: 'NOT_FOUND' })));
+    const breaker = createBreaker(notFound, {
+      failureThreshold: 1,
+      isFailure: (err) => err.code !== 'NOT_FOUND',
+    });
+
+    await breaker();
+    await breaker();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should count factory exceptions and support manual reset and unsubscribe', async () => {
+    const listener = vi.fn();
+    const breaker = createBreaker(async (): Promise<SafeResult<number>> => { throw new Error('bug'); }, {
+      failureThreshold: 1,
+    });
+    const unsubscribe = breaker.onStateChange(listener);
+
+    const [ok, err] = await breaker();
+    expect(ok).toBe(false);
+    expect((err as SafeError).message).toBe('bug');
+    expect(breaker.state).toBe('open');
+
+    unsubscribe();
+    breaker.reset();
+    expect(breaker.state).toBe('closed');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
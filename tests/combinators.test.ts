@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { all, allSettled, any, race, collectAll } from '../src/combinators';
+import { to, sync } from '../src/core';
+import { SafeError, SafeAggregateError, CollectError } from '../src/error';
+import { isSafeResult } from '../src/utils';
+import type { SafeResult } from '../src/types';
+
+// Tuple-shaped values are unwrapped by design, so keep them out of identity checks.
+const plainValue = fc.anything().filter((value) => !isSafeResult(value));
+
+const delay = <T>(ms: number, value: T): Promise<T> =>
+  new Promise((resolve) => setTimeout(() => resolve(value), ms));
+
+describe('all()', () => {
+  /**
+   * **Feature: combinators, Property 1: all 按位置保留成功值**
+   * *For any* array of values, `all` over a mix of promises and SafeResults SHALL
+   * return `[true, null, values]` with each value at its original position.
+   */
+  it('Property 1: all preserves per-position values', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(plainValue, { maxLength: 10 }), async (values) => {
+        const inputs = values.map((value, i) =>
+          i % 3 === 0 ? Promise.resolve(value) : i % 3 === 1 ? to(Promise.resolve(value)) : [true, null, value]
+        );
+
+        const [ok, err, data] = await all(inputs);
+
+        expect(ok).toBe(true);
+        expect(err).toBeNull();
+        expect(data).toHaveLength(values.length);
+        values.forEach((value, i) => expect(Object.is(data?.[i], value)).toBe(true));
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should keep record keys', async () => {
+    const [ok, , data] = await all({ a: Promise.resolve(1), b: [true, null, 'two'] as SafeResult<string> });
+    expect(ok).toBe(true);
+    expect(data).toEqual({ a: 1, b: 'two' });
+  });
+
+  it('should short-circuit on the first failure without waiting for the rest', async () => {
+    const [ok, err] = await all([new Promise(() => {}), Promise.reject(new Error('boom'))]);
+
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(SafeError);
+    expect(err?.message).toBe('boom');
+  });
+});
+
+
+describe('allSettled()', () => {
+  /**
+   * **Feature: combinators, Property 2: allSettled 返回每一项的 SafeResult**
+   * *For any* list of success/failure flags, `allSettled` SHALL succeed with one
+   * SafeResult per input whose ok flag matches the input outcome.
+   */
+  it('Property 2: allSettled reports every outcome', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.boolean(), { maxLength: 10 }), async (flags) => {
+        const inputs = flags.map((flag, i) =>
+          flag ? Promise.resolve(i) : Promise.reject(new Error(`failure ${i}`))
+        );
+
+        const [ok, err, data] = await allSettled(inputs);
+
+        expect(ok).toBe(true);
+        expect(err).toBeNull();
+        flags.forEach((flag, i) => {
+          expect(data?.[i]?.[0]).toBe(flag);
+          if (!flag) {
+            expect((data?.[i]?.[1] as SafeError).message).toBe(`failure ${i}`);
+          }
+        });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+
+describe('any()', () => {
+  /**
+   * **Feature: combinators, Property 3: any 全部失败时聚合所有错误**
+   * *For any* non-empty list of error messages, `any` over failing inputs SHALL return
+   * a SafeAggregateError with code `ALL_FAILED` holding every error in input order.
+   */
+  it('Property 3: any aggregates every failure', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.string(), { minLength: 1, maxLength: 10 }), async (messages) => {
+        const [ok, err, data] = await any(
+          messages.map((message) => Promise.reject(new Error(message)))
+        );
+
+        expect(ok).toBe(false);
+        expect(data).toBeNull();
+        expect(err).toBeInstanceOf(SafeAggregateError);
+        expect(err?.code).toBe('ALL_FAILED');
+        expect(err?.errors.map((e) => e.message)).toEqual(messages);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should resolve with the first success', async () => {
+    const [ok, , data] = await any([
+      Promise.reject(new Error('nope')),
+      delay(20, 'slow'),
+      delay(1, 'fast'),
+    ]);
+    expect(ok).toBe(true);
+    expect(data).toBe('fast');
+  });
+
+  it('should fail for empty input', async () => {
+    const [ok, err] = await any([]);
+    expect(ok).toBe(false);
+    expect(err?.errors).toEqual([]);
+  });
+});
+
+
+describe('race()', () => {
+  it('should settle with the first result, success or failure', async () => {
+    const [ok1, , data] = await race({ slow: delay(20, 'slow'), fast: delay(1, 'fast') });
+    expect(ok1).toBe(true);
+    expect(data).toBe('fast');
+
+    const [ok2, err] = await race([delay(20, 'slow'), Promise.reject(new Error('first'))]);
+    expect(ok2).toBe(false);
+    expect(err?.message).toBe('first');
+  });
+
+  it('should fail with EMPTY for empty input', async () => {
+    const [ok, err] = await race([]);
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('EMPTY');
+  });
+});
+
+describe('collectAll()', () => {
+  const required = (value: string) =>
+    sync(() => {
+      if (!value) throw new Error('is required');
+      return value;
+    });
+  const positive = (value: number) =>
+    sync(() => {
+      if (value <= 0) throw new Error('must be positive');
+      return value;
+    });
+
+  /**
+   * **Feature: collect-all, Property 1: 报告每一个失败字段**
+   * *For any* record of pass/fail checks, `collectAll` SHALL succeed only when every check
+   * passes, and otherwise list exactly the failing fields in `errors` and `issues`.
+   */
+  it('Property 1: collectAll reports every failing field', () => {
+    fc.assert(
+      fc.property(fc.dictionary(fc.stringMatching(/^[a-z]{1,6}$/), fc.boolean()), (checks) => {
+        const inputs = Object.fromEntries(
+          Object.entries(checks).map(([key, pass]) => [key, positive(pass ? 1 : 0)])
+        );
+        const failing = Object.keys(checks).filter((key) => !checks[key]);
+
+        const [ok, err, data] = collectAll(inputs);
+
+        if (failing.length === 0) {
+          expect(ok).toBe(true);
+          expect(Object.keys(data ?? {})).toEqual(Object.keys(checks));
+        } else {
+          expect(err).toBeInstanceOf(CollectError);
+          expect(Object.keys(err!.errors)).toEqual(failing);
+          expect(err!.issues.map(({ path }) => path)).toEqual(failing.map((key) => [key]));
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should return the typed record synchronously when every check passes', () => {
+    const [ok, err, data] = collectAll({ name: required('Ada'), age: positive(36), role: 'admin' });
+
+    expect(ok).toBe(true);
+    expect(err).toBeNull();
+    expect(data).toEqual({ name: 'Ada', age: 36, role: 'admin' });
+  });
+
+  it('should list every failure in one ValidationError', () => {
+    const [ok, err] = collectAll({ name: required(''), age: positive(-1), email: required('a@b.c') });
+
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('VALIDATION');
+    expect(err?.message).toBe('Validation failed: name: is required; age: must be positive');
+    expect(err?.errors.name?.message).toBe('is required');
+    expect(err?.errors.age?.message).toBe('must be positive');
+  });
+
+  it('should await async checks', async () => {
+    const result = collectAll({
+      name: required('Ada'),
+      taken: to(Promise.reject(new Error('already taken'))),
+      age: Promise.resolve(36),
+    });
+    expect(result).toBeInstanceOf(Promise);
+
+    const [ok, err] = await result;
+    expect(ok).toBe(false);
+    expect(Object.keys(err!.errors)).toEqual(['taken']);
+
+    const [ok2, , data] = await collectAll({ name: required('Ada'), age: delay(1, 36) });
+    expect(ok2).toBe(true);
+    expect(data).toEqual({ name: 'Ada', age: 36 });
+  });
+
+  it('should qualify errors with their path in nested mode', () => {
+    const [ok, err] = collectAll(
+      {
+        name: required('Ada'),
+        address: { city: required(''), zip: { code: required('') } },
+      },
+      { nested: true }
+    );
+
+    expect(ok).toBe(false);
+    expect(Object.keys(err!.errors)).toEqual(['address.city', 'address.zip.code']);
+    expect(err?.issues.map(({ path }) => path)).toEqual([['address', 'city'], ['address', 'zip', 'code']]);
+    expect(err?.message).toBe('Validation failed: address.city: is required; address.zip.code: is required');
+
+    const [, , data] = collectAll(
+      { name: required('Ada'), address: { city: required('Paris'), tags: [] } },
+      { nested: true }
+    );
+    expect(data).toEqual({ name: 'Ada', address: { city: 'Paris', tags: [] } });
+  });
+});
@@ -1,7 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import * as fc from 'fast-check';
-import { to, sync, cb } from '../src/core';
+import { to, sync, cb, fromCallback } from '../src/core';
 import { SafeError } from '../src/error';
+import { configure } from '../src/hooks';
 
 describe('to()', () => {
   /**
@@ -204,3 +205,213 @@ describe('Custom Error Transformer', () => {
     );
   });
 });
+
+
+describe('Timeouts and AbortSignal', () => {
+  /**
+   * **Feature: timeout-and-abort, Property 1: 超时产生 TIMEOUT 错误**
+   * *For any* timeout T, a promise that never settles SHALL resolve through `to`
+   * to `[false, err, null]` where err.code is `TIMEOUT`.
+   */
+  it('Property 1: to() resolves with TIMEOUT when the deadline passes', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 5 }), async (timeout) => {
+        const [ok, err, data] = await to(new Promise(() => {}), { timeout });
+
+        expect(ok).toBe(false);
+        expect(data).toBeNull();
+        expect(err).toBeInstanceOf(SafeError);
+        expect(err?.code).toBe('TIMEOUT');
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  /**
+   * **Feature: timeout-and-abort, Property 2: 期限内完成时结果不受影响**
+   * *For any* value V, a promise resolving before the timeout SHALL produce `[true, null, V]`.
+   */
+  it('Property 2: to() keeps the value when the promise settles in time', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.anything(), async (value) => {
+        const [ok, err, data] = await to(Promise.resolve(value), { timeout: 1000 });
+
+        expect(ok).toBe(true);
+        expect(err).toBeNull();
+        expect(Object.is(data, value)).toBe(true);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should clear the timer once the promise settles', async () => {
+    const clearSpy = vi.spyOn(globalThis, 'clearTimeout');
+    try {
+      await to(Promise.resolve(1), { timeout: 60_000 });
+      expect(clearSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      clearSpy.mockRestore();
+    }
+  });
+
+  it('should resolve with ABORTED when the signal fires', async () => {
+    const controller = new AbortController();
+    const pending = to(new Promise(() => {}), { signal: controller.signal });
+    controller.abort('stop');
+
+    const [ok, err] = await pending;
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('ABORTED');
+    expect(err?.cause).toBe('stop');
+  });
+
+  it('should resolve with ABORTED for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const [ok, err] = await to(Promise.resolve(1), { signal: controller.signal });
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('ABORTED');
+  });
+
+  it('should not call the sync function when the signal is aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = vi.fn(() => 1);
+
+    const [ok, err] = sync(fn, { signal: controller.signal });
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('ABORTED');
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should resolve cb() with TIMEOUT when the callback is never called', async () => {
+    const [ok, err] = await cb(() => {}, { timeout: 5 });
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('TIMEOUT');
+  });
+
+  it('should pass TIMEOUT errors through the error transformer', async () => {
+    const [ok, err] = await to(new Promise(() => {}), {
+      timeout: 0,
+      errorTransformer: (e) => ({ wrapped: e as SafeError }),
+    });
+    expect(ok).toBe(false);
+    expect(err?.wrapped.code).toBe('TIMEOUT');
+  });
+});
+
+
+describe('fromCallback()', () => {
+  function divide(a: number, b: number, done: (err: Error | null, result?: number) => void): void {
+    if (b === 0) {
+      done(new Error('division by zero'));
+    } else {
+      done(null, a / b);
+    }
+  }
+
+  /**
+   * **Feature: callback-adapter, Property 1: 适配后的函数可重复调用**
+   * *For any* pair of integers A and B, the adapted function SHALL resolve to
+   * `[true, null, A / B]` when B is non-zero and to an ErrorResult otherwise.
+   */
+  it('Property 1: adapted functions are reusable and map callback outcomes', async () => {
+    const safeDivide = fromCallback(divide);
+
+    await fc.assert(
+      fc.asyncProperty(fc.integer(), fc.integer({ min: -3, max: 3 }), async (a, b) => {
+        const [ok, err, data] = await safeDivide(a, b);
+
+        if (b === 0) {
+          expect(ok).toBe(false);
+          expect(err?.message).toBe('division by zero');
+        } else {
+          expect(ok).toBe(true);
+          expect(data).toBe(a / b);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should treat only null and undefined as success', async () => {
+    const [ok, err] = await fromCallback((done: (err: unknown, result: number) => void) => done(0, 1))();
+    expect(ok).toBe(false);
+    expect(err?.cause).toBe(0);
+  });
+
+  it('should collect every result in multi mode', async () => {
+    const stat = (name: string, done: (err: unknown, size: number, kind: string) => void) =>
+      done(null, name.length, 'file');
+
+    const [ok, , data] = await fromCallback(stat, { multi: true })('abc');
+    expect(ok).toBe(true);
+    expect(data).toEqual([3, 'file']);
+  });
+
+  it('should report extra callback invocations through the hook', async () => {
+    const onExtraCall = vi.fn();
+    const twice = (done: (err: unknown, result: string) => void) => {
+      done(null, 'first');
+      done(new Error('late'), 'second');
+    };
+
+    const [ok, , data] = await fromCallback(twice, { onExtraCall })();
+
+    expect(ok).toBe(true);
+    expect(data).toBe('first');
+    expect(onExtraCall).toHaveBeenCalledWith({
+      callCount: 2,
+      err: expect.any(Error),
+      results: ['second'],
+    });
+  });
+
+  it('should report extra invocations to the configured hooks by default', async () => {
+    const onExtraCall = vi.fn();
+    const override = vi.fn();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const unregister = configure({ onExtraCall });
+    const twice = (done: (err: unknown, result: number) => void) => {
+      done(null, 1);
+      done(null, 2);
+    };
+    try {
+      const [ok, , data] = await fromCallback(twice)();
+      expect(ok).toBe(true);
+      expect(data).toBe(1);
+      expect(onExtraCall).toHaveBeenCalledWith({ callCount: 2, err: null, results: [2] });
+
+      await fromCallback(twice, { onExtraCall: override })();
+      expect(override).toHaveBeenCalledTimes(1);
+      expect(onExtraCall).toHaveBeenCalledTimes(1);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      unregister();
+      warn.mockRestore();
+    }
+  });
+
+  it('should preserve this and capture synchronous throws', async () => {
+    const service = {
+      prefix: 'user',
+      load: fromCallback(function (this: { prefix: string }, id: number, done: (err: unknown, key: string) => void) {
+        done(null, `${this.prefix}:${id}`);
+      }),
+    };
+    expect(await service.load(7)).toEqual([true, null, 'user:7']);
+
+    const [ok, err] = await fromCallback((_done: (err: unknown, result: number) => void) => {
+      throw new Error('sync');
+    })();
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('sync');
+  });
+});
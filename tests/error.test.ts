@@ -1,6 +1,21 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-import { SafeError } from '../src/error';
+import vm from 'node:vm';
+import { Worker } from 'node:worker_threads';
+import { SafeError, defineError, matchError, fields, isSafeError } from '../src/error';
+import { sync } from '../src/core';
+import { format } from '../src/utils';
+
+function fromWorker(source: string): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(source, { eval: true });
+    worker.once('message', (message) => {
+      resolve(message);
+      void worker.terminate();
+    });
+    worker.once('error', reject);
+  });
+}
 
 describe('SafeError', () => {
   /**
@@ -107,4 +122,186 @@ describe('SafeError', () => {
       expect(result.cause).toBe(obj);
     });
   });
+
+  describe('SafeError.original()', () => {
+    it('should return the value a SafeError was created from', () => {
+      const error = new TypeError('bad');
+
+      expect(SafeError.original(SafeError.from(error))).toBe(error);
+      expect(SafeError.original(SafeError.from('plain'))).toBe('plain');
+    });
+
+    it('should return other values unchanged', () => {
+      const own = new SafeError('own');
+
+      expect(SafeError.original(own)).toBe(own);
+      expect(SafeError.original(SafeError.from(own))).toBe(own);
+      expect(SafeError.original(42)).toBe(42);
+    });
+  });
+});
+
+
+describe('defineError()', () => {
+  const NotFound = defineError('NotFound', { message: (f: { id: string }) => `Not found: ${f.id}` });
+  const Conflict = defineError('Conflict', { message: 'Version conflict', fields: fields<{ expected: number }>() });
+  type AppError = InstanceType<typeof NotFound> | InstanceType<typeof Conflict>;
+
+  /**
+   * **Feature: typed-errors, Property 1: 定义的错误携带字面量 code 与字段**
+   * *For any* field value V, `new NotFound({ id: V })` SHALL be a SafeError whose code and
+   * name are `NotFound`, whose `id` is V and whose message is built from the fields.
+   */
+  it('Property 1: defined errors carry their code and fields', () => {
+    fc.assert(
+      fc.property(fc.string(), (id) => {
+        const error = new NotFound({ id });
+
+        expect(error).toBeInstanceOf(SafeError);
+        expect(error).toBeInstanceOf(Error);
+        expect(NotFound.is(error)).toBe(true);
+        expect(Conflict.is(error)).toBe(false);
+        expect(error.code).toBe('NotFound');
+        expect(error.name).toBe('NotFound');
+        expect(error.id).toBe(id);
+        expect(error.message).toBe(`Not found: ${id}`);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should use the code as message when none is given and keep the cause', () => {
+    const Timeout = defineError('Timeout');
+    const cause = new Error('socket hang up');
+    const error = new Timeout(undefined, { cause });
+
+    expect(error.message).toBe('Timeout');
+    expect(error.cause).toBe(cause);
+    expect(Timeout.code).toBe('Timeout');
+  });
+
+  it('should not let payload fields overwrite the code, name or message', () => {
+    const HttpFail = defineError('HttpFail', { message: 'Request failed' });
+    const cause = new Error('ECONNRESET');
+    const payload = { code: 503, name: 'Ada', message: 'hijacked', cause: 'nope', stack: 'fake', status: 503 };
+    const error = new HttpFail(payload as {}, { cause });
+
+    expect(error.code).toBe('HttpFail');
+    expect(error.name).toBe('HttpFail');
+    expect(error.message).toBe('Request failed');
+    expect(error.cause).toBe(cause);
+    expect(error.stack).not.toBe('fake');
+    expect((error as unknown as { status: number }).status).toBe(503);
+    expect(matchError(error, { HttpFail: () => 'matched', _: () => 'fallback' })).toBe('matched');
+  });
+
+  it('should be usable as the error type of sync()', () => {
+    const [ok, err] = sync<number, AppError>(
+      () => { throw new Conflict({ expected: 2 }); },
+      (e) => (Conflict.is(e) || NotFound.is(e) ? e : new NotFound({ id: '?' }))
+    );
+
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('Conflict');
+  });
+
+  describe('matchError()', () => {
+    it('should dispatch on the error code', () => {
+      const handlers = {
+        NotFound: (e: InstanceType<typeof NotFound>) => `missing ${e.id}`,
+        Conflict: (e: InstanceType<typeof Conflict>) => `expected ${e.expected}`,
+      };
+
+      expect(matchError<AppError, typeof handlers>(new NotFound({ id: '7' }), handlers)).toBe('missing 7');
+      expect(matchError<AppError, typeof handlers>(new Conflict({ expected: 3 }), handlers)).toBe('expected 3');
+    });
+
+    it('should fall back to the _ handler for unknown codes', () => {
+      const error: SafeError = new SafeError('boom', { code: 'toString' });
+      expect(matchError(error, { _: (e) => e.message })).toBe('boom');
+    });
+
+    it('should throw an UNHANDLED SafeError when no handler matches at runtime', () => {
+      const error = new SafeError('boom', { code: 'Other' }) as unknown as AppError;
+      const handlers = { NotFound: () => 1, Conflict: () => 2 };
+
+      expect(() => matchError(error, handlers)).toThrowError(
+        expect.objectContaining({ code: 'UNHANDLED', cause: error })
+      );
+    });
+  });
+});
+
+describe('cross-realm recognition', () => {
+  it('should recognise errors created in another vm context', () => {
+    const foreign = vm.runInNewContext(
+      'const e = new TypeError("bad input"); e.code = "E_INPUT"; e'
+    ) as Error & { code: string };
+    expect(foreign instanceof Error).toBe(false);
+
+    const error = SafeError.from(foreign);
+
+    expect(error.message).toBe('bad input');
+    expect(error.code).toBe('E_INPUT');
+    expect(error.stack).toBe(foreign.stack);
+    expect(error.cause).toBe(foreign);
+  });
+
+  it('should pass through SafeErrors branded in another realm', () => {
+    const foreign = vm.runInNewContext(`
+      const e = new Error("payment declined");
+      Object.defineProperty(Object.getPrototypeOf(e), Symbol.for("await-to-tuple.SafeError"), { value: true });
+      e.name = "SafeError";
+      e.code = "DECLINED";
+      e
+    `);
+
+    expect(isSafeError(foreign)).toBe(true);
+    expect(SafeError.from(foreign)).toBe(foreign);
+    expect(SafeError.from(foreign).code).toBe('DECLINED');
+  });
+
+  it('should keep message, code and stack of errors cloned from worker threads', async () => {
+    const received = await fromWorker(`
+      const { parentPort } = require('node:worker_threads');
+      const error = new RangeError('out of range');
+      parentPort.postMessage({ error, json: { message: 'quota exceeded', code: 'QUOTA' } });
+    `) as { error: Error; json: { message: string; code: string } };
+
+    const cloned = SafeError.from(received.error);
+    expect(cloned.message).toBe('out of range');
+    expect(cloned.stack).toContain('out of range');
+
+    const plain = SafeError.from(received.json);
+    expect(plain.message).toBe('quota exceeded');
+    expect(plain.code).toBe('QUOTA');
+    expect(plain.cause).toBe(received.json);
+  });
+
+  it('should treat plain objects from JSON APIs as errors', () => {
+    const body = JSON.parse('{"message":"not found","code":404,"stack":"NotFound: not found\\n    at api"}');
+    const error = SafeError.from(body);
+
+    expect(error.message).toBe('not found');
+    expect(error.code).toBe('404');
+    expect(error.stack).toBe('NotFound: not found\n    at api');
+  });
+
+  it('should follow cross-realm causes in format()', () => {
+    const foreign = vm.runInNewContext('new Error("socket hang up")');
+    const error = new SafeError('request failed', { cause: foreign });
+
+    expect(format([false, error, null])).toBe('[ERR] error: request failed: socket hang up');
+  });
+
+  it('should recognise local SafeErrors and subclasses', () => {
+    const NotFound = defineError('NOT_FOUND');
+
+    expect(isSafeError(new SafeError('x'))).toBe(true);
+    expect(isSafeError(new NotFound())).toBe(true);
+    expect(isSafeError(new Error('x'))).toBe(false);
+    expect(isSafeError({ message: 'x' })).toBe(false);
+  });
 });
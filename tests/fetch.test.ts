@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { safeFetch } from '../src/fetch';
+import { HttpError } from '../src/error';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const status = Number(url.searchParams.get('status') ?? 200);
+
+    switch (url.pathname) {
+      case '/json':
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ id: 1, name: 'Ada' }));
+        return;
+      case '/status':
+        res.writeHead(status, { 'x-request-id': 'abc' });
+        res.end(`failure body for ${status} `.repeat(100));
+        return;
+      case '/broken-json':
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end('{"id": ');
+        return;
+      case '/empty':
+        res.writeHead(204);
+        res.end();
+        return;
+      case '/slow':
+        setTimeout(() => res.end('late'), 1000);
+        return;
+      default:
+        res.writeHead(200);
+        res.end('plain text');
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('safeFetch()', () => {
+  /**
+   * **Feature: safe-fetch, Property 1: 非 2xx 状态被分类为 HTTP 错误码**
+   * *For any* status S in 400-599, safeFetch SHALL return an HttpError carrying S,
+   * the response headers and a truncated body, with code `HTTP_<S>` for 4xx and `HTTP_5XX` for 5xx.
+   */
+  it('Property 1: error statuses map to HTTP codes', async () => {
+    await fc.assert(
+      // undici rejects 407 responses itself, so they surface as network errors
+      fc.asyncProperty(fc.integer({ min: 400, max: 599 }).filter((s) => s !== 407), async (status) => {
+        const [ok, err, data] = await safeFetch(`${baseUrl}/status?status=${status}`, { snippetLength: 50 });
+
+        expect(ok).toBe(false);
+        expect(data).toBeNull();
+        expect(err).toBeInstanceOf(HttpError);
+        const httpError = err as HttpError;
+        expect(httpError.code).toBe(status >= 500 ? 'HTTP_5XX' : `HTTP_${status}`);
+        expect(httpError.status).toBe(status);
+        expect(httpError.headers['x-request-id']).toBe('abc');
+        expect(httpError.body).toBe(`failure body for ${status} `.repeat(100).slice(0, 50));
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should parse JSON by default', async () => {
+    const [ok, err, data] = await safeFetch<{ id: number; name: string }>(`${baseUrl}/json`);
+    expect(ok).toBe(true);
+    expect(err).toBeNull();
+    expect(data).toEqual({ id: 1, name: 'Ada' });
+  });
+
+  it('should support text and none parse modes', async () => {
+    const [, , text] = await safeFetch(`${baseUrl}/text`, { parse: 'text' });
+    expect(text).toBe('plain text');
+
+    const [, , response] = await safeFetch(`${baseUrl}/text`, { parse: 'none' });
+    expect(response).toBeInstanceOf(Response);
+    expect(await response?.text()).toBe('plain text');
+  });
+
+  it('should return null for an empty JSON body', async () => {
+    expect(await safeFetch(`${baseUrl}/empty`)).toEqual([true, null, null]);
+  });
+
+  it('should report invalid JSON with code PARSE and the body snippet', async () => {
+    const [ok, err] = await safeFetch(`${baseUrl}/broken-json`);
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('PARSE');
+    expect((err as HttpError).body).toBe('{"id": ');
+  });
+
+  it('should report TIMEOUT when the deadline passes', async () => {
+    const [ok, err] = await safeFetch(`${baseUrl}/slow`, { timeout: 20 });
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('TIMEOUT');
+  });
+
+  it('should report ABORTED when the caller aborts', async () => {
+    const controller = new AbortController();
+    const pending = safeFetch(`${baseUrl}/slow`, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    const [ok, err] = await pending;
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('ABORTED');
+  });
+
+  it('should report NETWORK errors when the host is unreachable', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const [ok, err] = await safeFetch(`http://127.0.0.1:${port}/`);
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('NETWORK');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { gen, unwrap } from '../src/gen';
+import { to, sync } from '../src/core';
+import { SafeError } from '../src/error';
+import type { SafeResult } from '../src/types';
+
+describe('gen()', () => {
+  /**
+   * **Feature: do-notation, Property 1: 返回首个 ErrorResult**
+   * *For any* list of outcomes, a generator that unwraps each outcome in order SHALL
+   * return the first ErrorResult unchanged, or `[true, null, values]` if all succeed.
+   */
+  it('Property 1: returns the first ErrorResult or all unwrapped values', () => {
+    fc.assert(
+      fc.property(fc.array(fc.option(fc.integer(), { nil: undefined })), (outcomes) => {
+        const results: Array<SafeResult<number, SafeError>> = outcomes.map((value, i) =>
+          value === undefined ? [false, new SafeError(`error ${i}`), null] : [true, null, value]
+        );
+        let unwrapped = 0;
+
+        const result = gen(function* () {
+          const values: number[] = [];
+          for (const r of results) {
+            values.push(yield* unwrap(r));
+            unwrapped++;
+          }
+          return values;
+        });
+
+        const firstError = results.find((r) => !r[0]);
+        if (firstError) {
+          expect(result).toBe(firstError);
+          expect(unwrapped).toBe(results.indexOf(firstError));
+        } else {
+          expect(result).toEqual([true, null, outcomes]);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should run async generators and unwrap awaited results', async () => {
+    const [ok, err, data] = await gen(async function* () {
+      const a = yield* unwrap(await to(Promise.resolve(20)));
+      const b = yield* unwrap(sync(() => 22));
+      return a + b;
+    });
+
+    expect(ok).toBe(true);
+    expect(err).toBeNull();
+    expect(data).toBe(42);
+  });
+
+  it('should stop an async generator at the first error and run finally blocks', async () => {
+    let cleanedUp = false;
+    let reachedEnd = false;
+
+    const [ok, err] = await gen(async function* () {
+      try {
+        yield* unwrap(await to(Promise.reject(new Error('boom'))));
+        reachedEnd = true;
+        return 1;
+      } finally {
+        cleanedUp = true;
+      }
+    });
+
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('boom');
+    expect(reachedEnd).toBe(false);
+    expect(cleanedUp).toBe(true);
+  });
+
+  it('should let exceptions thrown by the generator body propagate', () => {
+    expect(() =>
+      gen(function* () {
+        throw new Error('not a result');
+      })
+    ).toThrow('not a result');
+  });
+});
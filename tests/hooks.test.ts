@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { configure } from '../src/hooks';
+import type { CaptureMeta } from '../src/hooks';
+import { to, sync, cb, fromCallback } from '../src/core';
+import { pipe } from '../src/utils';
+import { SafeError } from '../src/error';
+
+const cleanups: Array<() => void> = [];
+
+function register(...args: Parameters<typeof configure>): void {
+  cleanups.push(configure(...args));
+}
+
+afterEach(() => {
+  cleanups.splice(0).forEach((unregister) => unregister());
+  vi.useRealTimers();
+});
+
+describe('configure()', () => {
+  /**
+   * **Feature: capture-hooks, Property 1: 每个被捕获的错误都会触发钩子**
+   * *For any* thrown value V, `sync` SHALL call every registered onCapture hook exactly once
+   * with the resulting error and meta naming the source and label.
+   */
+  it('Property 1: onCapture fires once per captured error', () => {
+    fc.assert(
+      fc.property(fc.anything(), fc.option(fc.string(), { nil: undefined }), (value, label) => {
+        const onCapture = vi.fn();
+        const unregister = configure({ onCapture });
+
+        const [, err] = sync(() => { throw value; }, { label });
+        unregister();
+
+        expect(onCapture).toHaveBeenCalledTimes(1);
+        const [captured, meta] = onCapture.mock.calls[0] as [unknown, CaptureMeta];
+        expect(captured).toBe(err);
+        expect(meta.source).toBe('sync');
+        expect(meta.label).toBe(label);
+        expect(meta.elapsed).toBeGreaterThanOrEqual(0);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should report the capturing API for to, cb, fromCallback and pipe', async () => {
+    const sources: string[] = [];
+    register({ onCapture: (_err, meta) => sources.push(meta.source) });
+
+    await to(Promise.reject(new Error('a')));
+    await cb((done) => done(new Error('b')));
+    await fromCallback((done: (err: unknown, result: number) => void) => done(new Error('c')))();
+    await pipe(1, () => { throw new Error('d'); });
+
+    expect(sources).toEqual(['to', 'cb', 'fromCallback', 'pipe']);
+  });
+
+  it('should stop firing after unregistering and ignore successes', async () => {
+    const onCapture = vi.fn();
+    const unregister = configure({ onCapture });
+
+    await to(Promise.resolve(1));
+    expect(onCapture).not.toHaveBeenCalled();
+
+    unregister();
+    await to(Promise.reject(new Error('ignored')));
+    expect(onCapture).not.toHaveBeenCalled();
+  });
+
+  it('should not let a throwing hook break error capture', () => {
+    register({ onCapture: () => { throw new Error('hook failed'); } });
+
+    const [ok, err] = sync(() => { throw new Error('original'); });
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('original');
+  });
+
+  describe('unobserved error detection', () => {
+    it('should warn when err is never read', () => {
+      vi.useFakeTimers();
+      const onUnobserved = vi.fn();
+      register({ onUnobserved, unobservedTimeout: 100 });
+
+      const result = sync(() => { throw new Error('ignored'); }, { label: 'load config' });
+      const [ok] = result;
+      expect(ok).toBe(false);
+
+      vi.advanceTimersByTime(100);
+      expect(onUnobserved).toHaveBeenCalledTimes(1);
+      expect(onUnobserved.mock.calls[0]?.[0]).toBeInstanceOf(SafeError);
+      expect(onUnobserved.mock.calls[0]?.[1]).toMatchObject({ source: 'sync', label: 'load config' });
+    });
+
+    it('should stay quiet when err is read through destructuring', () => {
+      vi.useFakeTimers();
+      const onUnobserved = vi.fn();
+      register({ onUnobserved, unobservedTimeout: 100 });
+
+      const [ok, err] = sync(() => { throw new Error('handled'); });
+      expect(ok).toBe(false);
+      expect(err?.message).toBe('handled');
+
+      vi.advanceTimersByTime(100);
+      expect(onUnobserved).not.toHaveBeenCalled();
+    });
+
+    it('should warn when only other indices are read directly', () => {
+      vi.useFakeTimers();
+      const onUnobserved = vi.fn();
+      register({ onUnobserved, unobservedTimeout: 100 });
+
+      const result = sync(() => { throw new Error('ignored'); });
+      expect(result[0]).toBe(false);
+      expect(result[2]).toBeNull();
+
+      vi.advanceTimersByTime(100);
+      expect(onUnobserved).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep watched results as plain cloneable arrays', () => {
+      vi.useFakeTimers();
+      const onUnobserved = vi.fn();
+      register({ onUnobserved, unobservedTimeout: 100 });
+
+      const result = sync(() => { throw new Error('cloned'); });
+      const copy = structuredClone(result);
+
+      expect(Array.isArray(result)).toBe(true);
+      expect(copy).toHaveLength(3);
+      expect(copy[0]).toBe(false);
+      expect(copy[1]).toBeInstanceOf(Error);
+      expect(copy[1]?.message).toBe('cloned');
+      expect(copy[2]).toBeNull();
+
+      vi.advanceTimersByTime(100);
+      expect(onUnobserved).not.toHaveBeenCalled();
+    });
+
+    // Known limitation: the array iterator reads index 1 for elided slots too.
+    it('should treat elided destructuring as observed', () => {
+      vi.useFakeTimers();
+      const onUnobserved = vi.fn();
+      register({ onUnobserved, unobservedTimeout: 100 });
+
+      const [ok, , data] = sync(() => { throw new Error('elided'); });
+      const [, , other] = sync(() => { throw new Error('elided'); });
+      expect(ok).toBe(false);
+      expect(data).toBeNull();
+      expect(other).toBeNull();
+
+      vi.advanceTimersByTime(100);
+      expect(onUnobserved).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  fromErrorFirst,
+  toErrorFirst,
+  fromResultObject,
+  toResultObject,
+  fromSettled,
+  toSettled,
+  toPromise,
+  orThrow,
+} from '../src/interop';
+import { to, sync } from '../src/core';
+import { SafeError } from '../src/error';
+import type { SafeResult } from '../src/types';
+
+const thrown = fc.oneof(
+  fc.string().map((message) => new TypeError(message)),
+  fc.string(),
+  fc.integer(),
+  fc.record({ reason: fc.string() })
+);
+
+describe('interop converters', () => {
+  /**
+   * **Feature: interop, Property 1: 其他形态往返无损**
+   * *For any* value or thrown value, converting an await-to-js tuple, a `{ ok, value, error }`
+   * object or a settled record to a SafeResult and back SHALL yield the original shape.
+   */
+  it('Property 1: foreign shapes round-trip losslessly', () => {
+    fc.assert(
+      fc.property(fc.anything(), thrown, (value, err) => {
+        expect(toErrorFirst(fromErrorFirst([null, value]))).toEqual([null, value]);
+        expect(toErrorFirst(fromErrorFirst([err, undefined]))[0]).toBe(err);
+
+        expect(toResultObject(fromResultObject({ ok: true, value }))).toEqual({ ok: true, value });
+        expect(toResultObject(fromResultObject({ ok: false, error: err }))).toEqual({ ok: false, error: err });
+
+        expect(toSettled(fromSettled({ status: 'fulfilled', value }))).toEqual({ status: 'fulfilled', value });
+        expect(toSettled(fromSettled({ status: 'rejected', reason: err }))).toEqual({ status: 'rejected', reason: err });
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: interop, Property 2: SafeResult 往返保持错误对象**
+   * *For any* SafeResult, converting it to another shape and back SHALL keep the data and
+   * the identity of the error.
+   */
+  it('Property 2: SafeResults round-trip through every shape', () => {
+    fc.assert(
+      fc.property(fc.anything(), fc.string(), fc.boolean(), (value, message, ok) => {
+        const result: SafeResult<unknown> = ok ? [true, null, value] : [false, new SafeError(message), null];
+
+        expect(fromErrorFirst(toErrorFirst(result))).toEqual(result);
+        expect(fromResultObject(toResultObject(result))).toEqual(result);
+        expect(fromSettled(toSettled(result))).toEqual(result);
+        if (!ok) {
+          expect(fromErrorFirst(toErrorFirst(result))[1]).toBe(result[1]);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: interop, Property 3: 失败往返后仍是失败**
+   * *For any* rejection value, including `null` and `undefined`, a failed SafeResult SHALL
+   * stay a failure through every shape and SHALL make `toPromise` reject with a non-nullish reason.
+   */
+  it('Property 3: failures stay failures through every shape', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.oneof(thrown, fc.constant(null), fc.constant(undefined)), async (value) => {
+        const result = await to(Promise.reject(value));
+
+        expect(fromErrorFirst(toErrorFirst(result))[0]).toBe(false);
+        expect(fromResultObject(toResultObject(result))[0]).toBe(false);
+        expect(fromSettled(toSettled(result))[0]).toBe(false);
+
+        const reason = await toPromise(result).then(
+          () => expect.unreachable(),
+          (err: unknown) => err
+        );
+        expect(reason).toBe(value ?? result[1]);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should wrap foreign errors in SafeError unless a transformer is given', () => {
+    const original = new TypeError('bad input');
+
+    const [, err] = fromErrorFirst([original, undefined]);
+    expect(err).toBeInstanceOf(SafeError);
+    expect(err?.cause).toBe(original);
+
+    const [, custom] = fromSettled({ status: 'rejected', reason: original }, (e) => String(e));
+    expect(custom).toBe('TypeError: bad input');
+  });
+
+  it('should rethrow the original error from toPromise and orThrow', async () => {
+    const original = new RangeError('out of range');
+
+    await expect(toPromise(to(Promise.reject(original)))).rejects.toBe(original);
+    await expect(toPromise([true, null, 42])).resolves.toBe(42);
+    expect(() => orThrow(sync(() => { throw original; }))).toThrow(original);
+    expect(orThrow([true, null, 'ok'])).toBe('ok');
+  });
+
+  it('should rethrow non-Error values as thrown', async () => {
+    await expect(toPromise(to(Promise.reject('plain string')))).rejects.toBe('plain string');
+  });
+
+  it('should rethrow SafeErrors that carry added context as they are', () => {
+    const result = sync(() => { throw new Error('ENOENT'); }, { context: 'loading config' });
+
+    expect(() => orThrow(result)).toThrow(result[1]!);
+  });
+});
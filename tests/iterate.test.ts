@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { Readable } from 'node:stream';
+import { iterate, collect } from '../src/iterate';
+import { SafeError } from '../src/error';
+
+async function* fromOutcomes(outcomes: Array<number | null>): AsyncGenerator<number | null> {
+  yield* outcomes;
+}
+
+// Fails the items that are null, like a parser rejecting bad rows.
+const check = (value: number | null, index: number): number => {
+  if (value === null) {
+    throw new SafeError(`item ${index}`);
+  }
+  return value;
+};
+
+async function drain<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('iterate()', () => {
+  /**
+   * **Feature: async-iteration, Property 1: 错误策略决定产出的结果**
+   * *For any* stream of successes and failures, `yield` SHALL produce every item,
+   * `skip` SHALL produce only successes, and `stop` SHALL end right after the first failure.
+   */
+  it('Property 1: error policies control which results are produced', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.option(fc.integer(), { nil: null }), { maxLength: 10 }), async (outcomes) => {
+        const yielded = await drain(iterate(fromOutcomes(outcomes), { onError: 'yield', map: check }));
+        const skipped = await drain(iterate(fromOutcomes(outcomes), { onError: 'skip', map: check }));
+        const stopped = await drain(iterate(fromOutcomes(outcomes), { onError: 'stop', map: check }));
+
+        expect(yielded.map(([ok]) => ok)).toEqual(outcomes.map((value) => value !== null));
+        expect(skipped.map(([, , data]) => data)).toEqual(outcomes.filter((value) => value !== null));
+
+        const firstFailure = outcomes.indexOf(null);
+        const expectedLength = firstFailure === -1 ? outcomes.length : firstFailure + 1;
+        expect(stopped).toHaveLength(expectedLength);
+        if (firstFailure !== -1) {
+          expect(stopped[firstFailure]?.[1]?.message).toBe(`item ${firstFailure}`);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should capture a mid-stream throw as a final ErrorResult', async () => {
+    async function* source() {
+      yield 1;
+      yield 2;
+      throw new Error('stream broke');
+    }
+
+    const results = await drain(iterate(source(), { onError: 'skip' }));
+
+    expect(results).toHaveLength(3);
+    expect(results.slice(0, 2)).toEqual([[true, null, 1], [true, null, 2]]);
+    expect(results[2]?.[0]).toBe(false);
+    expect(results[2]?.[1]?.message).toBe('stream broke');
+  });
+
+  it('should apply map and capture its failures per item', async () => {
+    const results = await drain(
+      iterate([1, 2, 3], {
+        onError: 'yield',
+        map: async (n) => {
+          if (n === 2) {
+            throw new Error('even');
+          }
+          return n * 10;
+        },
+      })
+    );
+
+    expect(results.map(([ok, , data]) => (ok ? data : 'err'))).toEqual([10, 'err', 30]);
+  });
+
+  it('should close the source when the consumer stops early', async () => {
+    let closed = false;
+    async function* source() {
+      try {
+        yield 1;
+        yield 2;
+      } finally {
+        closed = true;
+      }
+    }
+
+    for await (const result of iterate(source())) {
+      expect(result).toEqual([true, null, 1]);
+      break;
+    }
+    expect(closed).toBe(true);
+  });
+
+  it('should read Node readable streams and capture stream errors', async () => {
+    const ok = await drain(iterate(Readable.from(['a', 'b'])));
+    expect(ok).toEqual([[true, null, 'a'], [true, null, 'b']]);
+
+    const broken = new Readable({ objectMode: true, read() {} });
+    broken.push('first');
+    setTimeout(() => broken.destroy(new Error('socket closed')), 5);
+
+    const results = await drain(iterate(broken));
+    expect(results[0]).toEqual([true, null, 'first']);
+    expect(results[results.length - 1]?.[1]?.message).toBe('socket closed');
+  });
+});
+
+
+describe('collect()', () => {
+  it('should drain an iterable into a SafeResult array', async () => {
+    expect(await collect(Readable.from([1, 2, 3]))).toEqual([true, null, [1, 2, 3]]);
+    expect(await collect(fromOutcomes([1, null, 3]), { onError: 'skip', map: check })).toEqual([true, null, [1, 3]]);
+  });
+
+  it('should keep tuple-shaped rows as data', async () => {
+    const rows = [[false, 'row', null], [true, null, 'x']];
+
+    expect(await collect(rows)).toEqual([true, null, rows]);
+    expect(await collect(Readable.from(rows), { map: (row) => row.length })).toEqual([true, null, [3, 3]]);
+  });
+
+  it('should return the first error', async () => {
+    const [ok, err] = await collect(fromOutcomes([1, null, null]), { map: check });
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('item 1');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { memoize } from '../src/memoize';
+import { to } from '../src/core';
+
+function fakeClock() {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+describe('memoize()', () => {
+  /**
+   * **Feature: memoize, Property 1: 同一键的并发请求共享一次调用**
+   * *For any* list of keys requested concurrently, the factory SHALL be called once per
+   * distinct key and every caller SHALL receive the result for its own key.
+   */
+  it('Property 1: concurrent callers share one in-flight call per key', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.integer({ min: 0, max: 5 }), { maxLength: 20 }), async (ids) => {
+        const factory = vi.fn((id: number) => to(Promise.resolve(`user ${id}`)));
+        const load = memoize(factory);
+
+        const results = await Promise.all(ids.map((id) => load(id)));
+
+        expect(factory).toHaveBeenCalledTimes(new Set(ids).size);
+        results.forEach((result, i) => expect(result).toEqual([true, null, `user ${ids[i]}`]));
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should cache successes for ttl', async () => {
+    const clock = fakeClock();
+    const factory = vi.fn(() => to(Promise.resolve('config')));
+    const load = memoize(factory, { ttl: 100, now: clock.now });
+
+    await load();
+    clock.advance(99);
+    await load();
+    expect(factory).toHaveBeenCalledTimes(1);
+
+    clock.advance(1);
+    await load();
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache errors by default and cache them for errorTtl when set', async () => {
+    const clock = fakeClock();
+    const failing = vi.fn(() => to(Promise.reject(new Error('down'))));
+
+    const uncached = memoize(failing, { now: clock.now });
+    await uncached();
+    await uncached();
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    failing.mockClear();
+    const cached = memoize(failing, { errorTtl: 50, now: clock.now });
+    const [ok] = await cached();
+    await cached();
+    expect(ok).toBe(false);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    clock.advance(50);
+    await cached();
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it('should support custom keys, invalidation and clear', async () => {
+    const factory = vi.fn((user: { id: number; name: string }) => to(Promise.resolve(user.name)));
+    const load = memoize(factory, { key: (user) => user.id });
+
+    await load({ id: 1, name: 'a' });
+    await load({ id: 1, name: 'b' });
+    expect(factory).toHaveBeenCalledTimes(1);
+
+    load.invalidate({ id: 1, name: 'ignored' });
+    expect(await load({ id: 1, name: 'c' })).toEqual([true, null, 'c']);
+
+    load.clear();
+    expect(load.size).toBe(0);
+  });
+
+  it('should key a single argument by value or identity', async () => {
+    const factory = vi.fn((arg: unknown) => to(Promise.resolve(arg)));
+    const load = memoize(factory);
+    const filled = new Map([[1, 2]]);
+    const empty = new Map();
+
+    expect(await load(filled)).toEqual([true, null, filled]);
+    expect((await load(empty))[2]).toBe(empty);
+    expect(await load(null)).toEqual([true, null, null]);
+    expect(await load(undefined)).toEqual([true, null, undefined]);
+    expect(await load(1n)).toEqual([true, null, 1n]);
+    await load(1n);
+    await load(filled);
+
+    expect(factory).toHaveBeenCalledTimes(5);
+  });
+
+  it('should return an ErrorResult when the key cannot be computed', async () => {
+    const factory = vi.fn((a: number, b: number) => to(Promise.resolve(a + b)));
+    // @ts-expect-error JavaScript callers can still leave out the key
+    const unkeyed = memoize(factory);
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    const throwing = memoize((value: object) => to(Promise.resolve(value)), { key: (value) => JSON.stringify(value) });
+
+    const [ok, err] = await unkeyed(1, 2);
+    expect(ok).toBe(false);
+    expect(err?.message).toContain('needs a key option');
+
+    const [circularOk, circularErr] = await throwing(circular);
+    expect(circularOk).toBe(false);
+    expect(circularErr?.message).toContain('circular');
+    expect(() => throwing.invalidate(circular)).not.toThrow();
+    expect(factory).not.toHaveBeenCalled();
+    expect(throwing.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry beyond maxSize', async () => {
+    const factory = vi.fn((id: number) => to(Promise.resolve(id)));
+    const load = memoize(factory, { maxSize: 2 });
+
+    await load(1);
+    await load(2);
+    await load(1);
+    await load(3);
+    expect(load.size).toBe(2);
+
+    await load(1);
+    expect(factory).toHaveBeenCalledTimes(3);
+    await load(2);
+    expect(factory).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not re-cache a call invalidated while in flight', async () => {
+    let resolve!: (value: string) => void;
+    const factory = vi.fn(() => to(new Promise<string>((r) => { resolve = r; })));
+    const load = memoize(factory);
+
+    const pending = load();
+    load.invalidate();
+    resolve('stale');
+    await pending;
+
+    expect(load.size).toBe(0);
+  });
+});
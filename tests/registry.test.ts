@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { readFile } from 'node:fs/promises';
+import vm from 'node:vm';
+import {
+  ErrorRegistry,
+  registerError,
+  useErrorRegistry,
+  abortErrorRule,
+  systemErrorRule,
+} from '../src/registry';
+import { SafeError, defineError } from '../src/error';
+import { to, sync } from '../src/core';
+
+class DbError extends Error {
+  constructor(readonly constraint: string) {
+    super(`violates ${constraint}`);
+  }
+}
+
+const Conflict = defineError('Conflict', { message: (f: { constraint: string }) => `conflict on ${f.constraint}` });
+
+let restore: () => void;
+
+beforeEach(() => {
+  restore = useErrorRegistry(new ErrorRegistry());
+});
+
+afterEach(() => {
+  restore();
+});
+
+describe('ErrorRegistry', () => {
+  /**
+   * **Feature: error-registry, Property 1: 按注册顺序应用第一个匹配的规则**
+   * *For any* list of rule thresholds, SafeError.from(N) SHALL use the first registered rule
+   * whose predicate matches N, and fall back to the default conversion when none match.
+   */
+  it('Property 1: the first matching rule in registration order wins', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: 10 }), { maxLength: 5 }), fc.integer({ min: 0, max: 10 }), (thresholds, value) => {
+        const registry = new ErrorRegistry();
+        const undo = useErrorRegistry(registry);
+        thresholds.forEach((threshold, i) => {
+          registry.register({
+            test: (err) => typeof err === 'number' && err >= threshold,
+            map: () => new SafeError(`rule ${i}`, { code: `RULE_${i}` }),
+          });
+        });
+
+        const error = SafeError.from(value);
+        undo();
+
+        const expected = thresholds.findIndex((threshold) => value >= threshold);
+        if (expected === -1) {
+          expect(error.code).toBeUndefined();
+          expect(error.cause).toBe(value);
+        } else {
+          expect(error.code).toBe(`RULE_${expected}`);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should map class-based rules in SafeError.from and every core function', async () => {
+    registerError({ instanceOf: DbError, map: (err) => new Conflict({ constraint: err.constraint }, { cause: err }) });
+
+    const [, asyncErr] = await to(Promise.reject(new DbError('users_email_key')));
+    const [, syncErr] = sync(() => { throw new DbError('orders_pkey'); });
+
+    expect(Conflict.is(asyncErr)).toBe(true);
+    expect(asyncErr?.message).toBe('conflict on users_email_key');
+    expect(syncErr?.code).toBe('Conflict');
+  });
+
+  it('should let per-call transformers override registered rules', () => {
+    registerError({ instanceOf: DbError, map: () => new SafeError('mapped') });
+
+    const [, err] = sync(() => { throw new DbError('x'); }, (e) => `raw: ${(e as Error).message}`);
+    expect(err).toBe('raw: violates x');
+  });
+
+  it('should stop applying a rule after it is unregistered', () => {
+    const unregister = registerError({ test: () => true, map: () => new SafeError('mapped') });
+    expect(SafeError.from('boom').message).toBe('mapped');
+
+    unregister();
+    expect(SafeError.from('boom').message).toBe('boom');
+  });
+
+  it('should isolate registries', () => {
+    registerError({ test: () => true, map: () => new SafeError('isolated') });
+    restore();
+
+    expect(SafeError.from('boom').message).toBe('boom');
+    restore = useErrorRegistry(new ErrorRegistry());
+  });
+});
+
+
+describe('built-in rules', () => {
+  it('should map AbortError to ABORTED', async () => {
+    registerError(abortErrorRule);
+    const controller = new AbortController();
+    controller.abort();
+
+    const [, err] = await to(fetch('http://127.0.0.1:1', { signal: controller.signal }));
+    expect(err?.code).toBe('ABORTED');
+  });
+
+  it('should map Node system errors to their code and path', async () => {
+    registerError(systemErrorRule);
+
+    const [, err] = await to(readFile('/definitely/missing/file.txt'));
+    expect(err?.code).toBe('ENOENT');
+    expect(err?.meta).toEqual({ syscall: 'open', path: '/definitely/missing/file.txt' });
+  });
+
+  it('should map system errors created in another realm', () => {
+    registerError(systemErrorRule);
+    const foreign = vm.runInNewContext(
+      'Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED", syscall: "connect" })'
+    );
+
+    const [, err] = sync(() => { throw foreign; });
+    expect(err?.code).toBe('ECONNREFUSED');
+    expect(err?.meta).toEqual({ syscall: 'connect' });
+  });
+});
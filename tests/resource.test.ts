@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { withResource } from '../src/resource';
+import { to } from '../src/core';
+import { SafeError, SafeAggregateError } from '../src/error';
+import { format } from '../src/utils';
+
+function connection() {
+  return { query: vi.fn(async (sql: string) => [sql]), close: vi.fn(async () => {}) };
+}
+
+describe('withResource()', () => {
+  /**
+   * **Feature: resource, Property 1: 获取成功后总会释放**
+   * *For any* combination of use and release outcomes, `release` SHALL be called exactly once
+   * after a successful acquire, and the result SHALL fail whenever either step fails.
+   */
+  it('Property 1: release always runs after a successful acquire', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.boolean(), fc.boolean(), async (useFails, releaseFails) => {
+        const release = vi.fn(async () => {
+          if (releaseFails) throw new Error('release failed');
+        });
+
+        const [ok, err, data] = await withResource(
+          async () => 'resource',
+          async (resource) => {
+            if (useFails) throw new Error('use failed');
+            return resource.toUpperCase();
+          },
+          release
+        );
+
+        expect(release).toHaveBeenCalledTimes(1);
+        expect(release).toHaveBeenCalledWith('resource');
+        expect(ok).toBe(!useFails && !releaseFails);
+        if (ok) {
+          expect(data).toBe('RESOURCE');
+        } else {
+          expect(err).toBeInstanceOf(SafeError);
+        }
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should not release when acquire fails', async () => {
+    const use = vi.fn();
+    const release = vi.fn();
+
+    const [ok, err] = await withResource(() => to(Promise.reject(new Error('ECONNREFUSED'))), use, release);
+
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('ECONNREFUSED');
+    expect(use).not.toHaveBeenCalled();
+    expect(release).not.toHaveBeenCalled();
+  });
+
+  it('should unwrap SafeResults returned by acquire and use', async () => {
+    const conn = connection();
+
+    const [ok, , rows] = await withResource(
+      () => to(Promise.resolve(conn)),
+      (c) => to(c.query('select 1')),
+      (c) => c.close()
+    );
+
+    expect(ok).toBe(true);
+    expect(rows).toEqual(['select 1']);
+    expect(conn.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep both errors when use and release fail', async () => {
+    const useError = new Error('query failed');
+    const releaseError = new Error('close failed');
+
+    const [ok, err] = await withResource(
+      async () => connection(),
+      () => { throw useError; },
+      () => { throw releaseError; }
+    );
+
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(SafeAggregateError);
+    expect(err?.code).toBe('RELEASE_FAILED');
+    const releaseLink = err?.cause as SafeError;
+    expect(releaseLink.message).toBe('close failed');
+    expect((releaseLink.cause as SafeError).cause).toBe(useError);
+    expect(format([false, err!, null])).toBe(
+      '[ERR] error: Failed to release resource after use failed: close failed: query failed'
+    );
+    const [first, second] = (err as SafeAggregateError).errors;
+    expect(first?.cause).toBe(useError);
+    expect(second?.cause).toBe(releaseError);
+  });
+
+  it('should report a release failure after a successful use', async () => {
+    const [ok, err] = await withResource(
+      async () => connection(),
+      (c) => c.query('select 1'),
+      () => Promise.reject(new Error('close failed'))
+    );
+
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('close failed');
+  });
+
+  it('should dispose Disposable and AsyncDisposable resources', async () => {
+    const order: string[] = [];
+    const syncResource = {
+      [Symbol.dispose]: () => order.push('dispose'),
+    };
+    const asyncResource = {
+      [Symbol.dispose]: () => order.push('sync fallback'),
+      [Symbol.asyncDispose]: async () => { order.push('asyncDispose'); },
+    };
+
+    const [ok1] = await withResource(() => syncResource, () => order.push('use sync'));
+    const [ok2] = await withResource(async () => asyncResource, () => order.push('use async'));
+
+    expect(ok1).toBe(true);
+    expect(ok2).toBe(true);
+    expect(order).toEqual(['use sync', 'dispose', 'use async', 'asyncDispose']);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { Result } from '../src/result';
+import { map, or } from '../src/utils';
+import { to, sync } from '../src/core';
+import { SafeError } from '../src/error';
+import type { SafeResult } from '../src/types';
+
+const safeResult = fc.oneof(
+  fc.integer().map((value): SafeResult<number> => [true, null, value]),
+  fc.string().map((message): SafeResult<number> => [false, new SafeError(message), null])
+);
+
+describe('Result', () => {
+  /**
+   * **Feature: result-wrapper, Property 1: 元组往返无损**
+   * *For any* SafeResult R, `Result.from(R).toTuple()` SHALL return R itself.
+   */
+  it('Property 1: converts back to the original tuple', () => {
+    fc.assert(
+      fc.property(safeResult, (result) => {
+        expect(Result.from(result).toTuple()).toBe(result);
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: result-wrapper, Property 2: 方法与自由函数一致**
+   * *For any* SafeResult R and function F, `Result.from(R).map(F)` SHALL equal `map(R, F)`
+   * and `unwrapOr(D)` SHALL equal `or(R, D)`.
+   */
+  it('Property 2: map and unwrapOr agree with the free functions', () => {
+    fc.assert(
+      fc.property(safeResult, fc.integer(), (result, defaultValue) => {
+        const double = (x: number) => x * 2;
+
+        expect(Result.from(result).map(double).toTuple()).toEqual(map(result, double));
+        expect(Result.from(result).unwrapOr(defaultValue)).toBe(or(result, defaultValue));
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should chain flatMap, mapErr and orElse', () => {
+    const parsed = Result.from(sync(() => '{"n": 1}'))
+      .flatMap((text) => sync(() => JSON.parse(text) as { n: number }))
+      .map(({ n }) => n + 1);
+    expect(parsed.toTuple()).toEqual([true, null, 2]);
+
+    const recovered = Result.from(sync(() => JSON.parse('{')))
+      .mapErr((err) => new SafeError(`invalid: ${err.message}`, { code: 'INVALID' }))
+      .orElse((err) => Result.ok(err.code));
+    expect(recovered.toTuple()).toEqual([true, null, 'INVALID']);
+  });
+
+  it('should run tap and tapErr only on the matching branch', () => {
+    const onOk = vi.fn();
+    const onErr = vi.fn();
+
+    Result.ok(1).tap(onOk).tapErr(onErr);
+    Result.err(new SafeError('x')).tap(onOk).tapErr(onErr);
+
+    expect(onOk).toHaveBeenCalledTimes(1);
+    expect(onOk).toHaveBeenCalledWith(1);
+    expect(onErr).toHaveBeenCalledTimes(1);
+  });
+
+  it('should match and unwrap', () => {
+    const error = new SafeError('nope');
+    const handlers = { ok: (n: number) => `ok ${n}`, err: (e: SafeError) => `err ${e.message}` };
+
+    expect(Result.ok(1).match(handlers)).toBe('ok 1');
+    expect(Result.err(error).match(handlers)).toBe('err nope');
+    expect(Result.ok(1).unwrap()).toBe(1);
+    expect(() => Result.err(error).unwrap()).toThrow(error);
+  });
+});
+
+
+describe('AsyncResult', () => {
+  it('should chain async steps across promises', async () => {
+    const tuple = await Result.fromAsync(to(Promise.resolve(20)))
+      .map(async (n) => n + 1)
+      .flatMap((n) => to(Promise.resolve(n * 2)))
+      .tap(async () => {})
+      .toTuple();
+
+    expect(tuple).toEqual([true, null, 42]);
+  });
+
+  it('should short-circuit on errors and recover with orElse', async () => {
+    const step = vi.fn();
+    const result = Result.fromAsync(to(Promise.reject(new Error('down'))))
+      .map(step)
+      .orElse(async (err) => Result.ok(`fallback after ${err.message}`));
+
+    expect(await result.unwrap()).toBe('fallback after down');
+    expect(step).not.toHaveBeenCalled();
+  });
+
+  it('should be awaitable as a Result', async () => {
+    const result = await Result.ok(1).async().map((n) => n + 1);
+    expect(result).toBeInstanceOf(Result);
+    expect(result.toTuple()).toEqual([true, null, 2]);
+    expect(await Result.err(new SafeError('x')).async().match({ ok: () => 1, err: () => 2 })).toBe(2);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { retry, backoffDelay } from '../src/retry';
+import { SafeError, SafeAggregateError } from '../src/error';
+
+describe('retry()', () => {
+  /**
+   * **Feature: retry, Property 1: 成功前的失败次数决定调用次数**
+   * *For any* attempt budget N and failure count F < N, a factory that fails F times
+   * then succeeds SHALL be called F + 1 times and the result SHALL be `[true, null, V]`.
+   */
+  it('Property 1: retries until the factory succeeds', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 0, max: 4 }),
+        fc.anything(),
+        async (attempts, failures, value) => {
+          const failCount = Math.min(failures, attempts - 1);
+          let calls = 0;
+
+          const [ok, err, data] = await retry(
+            async () => {
+              calls++;
+              if (calls <= failCount) {
+                throw new Error(`failure ${calls}`);
+              }
+              return value;
+            },
+            { attempts, delay: 0 }
+          );
+
+          expect(ok).toBe(true);
+          expect(err).toBeNull();
+          expect(Object.is(data, value)).toBe(true);
+          expect(calls).toBe(failCount + 1);
+
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  /**
+   * **Feature: retry, Property 2: 放弃时保留每次尝试的错误**
+   * *For any* attempt budget N, a factory that always fails SHALL produce a
+   * SafeAggregateError with code `RETRY_EXHAUSTED` holding N errors in attempt order.
+   */
+  it('Property 2: exhausted retries keep every attempt error', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 5 }), async (attempts) => {
+        const [ok, err, data] = await retry(
+          async (attempt) => {
+            throw new Error(`failure ${attempt}`);
+          },
+          { attempts, delay: 0 }
+        );
+
+        expect(ok).toBe(false);
+        expect(data).toBeNull();
+        expect(err).toBeInstanceOf(SafeAggregateError);
+        expect(err?.code).toBe('RETRY_EXHAUSTED');
+        expect(err?.errors.map((e) => e.message)).toEqual(
+          Array.from({ length: attempts }, (_, i) => `failure ${i + 1}`)
+        );
+        expect(err?.cause).toBe(err?.errors[attempts - 1]);
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  /**
+   * **Feature: retry, Property 3: 退避延迟遵循策略**
+   * *For any* base delay D, factor F and attempt A, fixed backoff SHALL wait D,
+   * exponential backoff SHALL wait D * F^(A-1) and jitter SHALL wait within [0, D * F^(A-1)].
+   */
+  it('Property 3: backoff delays follow the policy', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 1000 }),
+        fc.integer({ min: 1, max: 4 }),
+        fc.integer({ min: 1, max: 6 }),
+        (delay, factor, attempt) => {
+          const exponential = delay * Math.pow(factor, attempt - 1);
+
+          expect(backoffDelay({ backoff: 'fixed', delay, factor }, attempt)).toBe(delay);
+          expect(backoffDelay({ backoff: 'exponential', delay, factor }, attempt)).toBe(exponential);
+
+          const jittered = backoffDelay({ backoff: 'jitter', delay, factor }, attempt);
+          expect(jittered).toBeGreaterThanOrEqual(0);
+          expect(jittered).toBeLessThanOrEqual(exponential);
+
+          expect(
+            backoffDelay({ backoff: 'exponential', delay, factor, maxDelay: delay }, attempt)
+          ).toBe(delay);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should stop retrying when shouldRetry returns false', async () => {
+    let calls = 0;
+    const [ok, err] = await retry(
+      async () => {
+        calls++;
+        throw new SafeError('fatal', { code: 'FATAL' });
+      },
+      { attempts: 5, delay: 0, shouldRetry: (e) => e.code !== 'FATAL' }
+    );
+
+    expect(ok).toBe(false);
+    expect(calls).toBe(1);
+    expect(err?.code).toBe('RETRY_EXHAUSTED');
+    expect(err?.errors[0]?.code).toBe('FATAL');
+  });
+
+  it('should capture synchronous throws from the factory', async () => {
+    const [ok, err] = await retry(
+      () => {
+        throw new Error('sync failure');
+      },
+      { attempts: 2, delay: 0 }
+    );
+
+    expect(ok).toBe(false);
+    expect(err?.errors).toHaveLength(2);
+    expect(err?.errors[0]?.message).toBe('sync failure');
+  });
+
+  it('should abort while waiting between attempts', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+
+    const pending = retry(
+      async () => {
+        calls++;
+        throw new Error('flaky');
+      },
+      { attempts: 5, delay: 10_000, backoff: 'fixed', signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    const [ok, err] = await pending;
+    expect(ok).toBe(false);
+    expect(calls).toBe(1);
+    expect(err?.code).toBe('ABORTED');
+    expect(err?.errors).toHaveLength(1);
+  });
+
+  it('should abort while an attempt is running', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const started = Date.now();
+
+    const pending = retry(
+      (attempt) => {
+        calls++;
+        return attempt === 1
+          ? Promise.reject(new Error('flaky'))
+          : new Promise((resolve) => setTimeout(resolve, 300, 'late'));
+      },
+      { attempts: 3, delay: 0, backoff: 'fixed', signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 20);
+
+    const [ok, err] = await pending;
+    expect(Date.now() - started).toBeLessThan(200);
+    expect(ok).toBe(false);
+    expect(calls).toBe(2);
+    expect(err?.code).toBe('ABORTED');
+    expect(err?.errors.map((e) => e.message)).toEqual(['flaky']);
+  });
+
+  it('should pass the signal to the factory so the attempt can be cancelled', async () => {
+    const controller = new AbortController();
+    const cancelled: number[] = [];
+
+    const pending = retry(
+      (attempt, signal) =>
+        new Promise((resolve, reject) => {
+          const timer = setTimeout(resolve, 300, 'late');
+          signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            cancelled.push(attempt);
+            reject(signal.reason);
+          });
+        }),
+      { signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    const [ok, err] = await pending;
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('ABORTED');
+    expect(cancelled).toEqual([1]);
+  });
+
+  it('should not call the factory when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    let calls = 0;
+
+    const [ok, err] = await retry(async () => ++calls, { signal: controller.signal });
+
+    expect(ok).toBe(false);
+    expect(calls).toBe(0);
+    expect(err?.code).toBe('ABORTED');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { safe } from '../src/safe';
+import { SafeError } from '../src/error';
+import type { SafeResult } from '../src/types';
+
+describe('safe()', () => {
+  /**
+   * **Feature: safe-wrapper, Property 1: 包装后的同步函数与 sync 行为一致**
+   * *For any* value V and flag F, the wrapped function SHALL return `[true, null, V]`
+   * when it returns V and an ErrorResult capturing the thrown value when it throws.
+   */
+  it('Property 1: wrapped sync functions return SafeResults', () => {
+    const wrapped = safe((value: unknown, shouldThrow: boolean) => {
+      if (shouldThrow) {
+        throw value;
+      }
+      return value;
+    });
+
+    fc.assert(
+      fc.property(fc.anything(), fc.boolean(), (value, shouldThrow) => {
+        const [ok, err, data] = wrapped(value, shouldThrow);
+
+        expect(ok).toBe(!shouldThrow);
+        if (shouldThrow) {
+          expect(err).toBeInstanceOf(SafeError);
+          expect(data).toBeNull();
+        } else {
+          expect(Object.is(data, value)).toBe(true);
+        }
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should return a promise for async functions', async () => {
+    const load = safe(async (id: number) => {
+      if (id < 0) {
+        throw new Error('negative id');
+      }
+      return { id };
+    });
+
+    const success = load(1);
+    expect(success).toBeInstanceOf(Promise);
+    expect(await success).toEqual([true, null, { id: 1 }]);
+
+    const [ok, err] = await load(-1);
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('negative id');
+  });
+
+  it('should apply the error transformer and preserve this', () => {
+    const counter = {
+      step: 2,
+      next: safe(function (this: { step: number }, n: number) {
+        if (n > 10) {
+          throw new Error('too big');
+        }
+        return n + this.step;
+      }, (e) => `wrapped: ${(e as Error).message}`),
+    };
+
+    expect(counter.next(1)).toEqual([true, null, 3]);
+    expect(counter.next(11)).toEqual([false, 'wrapped: too big', null]);
+  });
+});
+
+
+describe('@safe() decorator', () => {
+  class UserService {
+    users = new Map([[1, 'Ada']]);
+
+    @safe()
+    async find(id: number): Promise<SafeResult<string>> {
+      const user = this.users.get(id);
+      if (!user) {
+        throw new SafeError(`User ${id} not found`, { code: 'NOT_FOUND' });
+      }
+      return [true, null, user];
+    }
+
+    @safe({ context: 'parsing user' })
+    parse(json: string): SafeResult<{ name: string }> {
+      return [true, null, JSON.parse(json)];
+    }
+  }
+
+  it('should turn throws in async methods into ErrorResults', async () => {
+    const service = new UserService();
+
+    expect(await service.find(1)).toEqual([true, null, 'Ada']);
+
+    const [ok, err] = await service.find(2);
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('NOT_FOUND');
+  });
+
+  it('should turn throws in sync methods into ErrorResults with options applied', () => {
+    const service = new UserService();
+
+    expect(service.parse('{"name":"Ada"}')).toEqual([true, null, { name: 'Ada' }]);
+
+    const [ok, err] = service.parse('{');
+    expect(ok).toBe(false);
+    expect(err?.message).toBe('parsing user');
+    expect(err?.cause).toBeInstanceOf(SafeError);
+  });
+});
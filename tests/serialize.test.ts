@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import vm from 'node:vm';
+import { serialize, deserialize, SERIALIZE_VERSION } from '../src/serialize';
+import { SafeError, SafeAggregateError } from '../src/error';
+import { to } from '../src/core';
+import type { SafeResult } from '../src/types';
+
+const extendedValue = fc.anything({
+  withBigInt: true,
+  withDate: true,
+  withMap: true,
+  withSet: true,
+});
+
+describe('serialize() and deserialize()', () => {
+  /**
+   * **Feature: wire-format, Property 1: 成功结果往返无损**
+   * *For any* value V including undefined, Date, BigInt, Map and Set,
+   * `deserialize(serialize([true, null, V]))` SHALL produce `[true, null, V']` with V' deeply equal to V.
+   */
+  it('Property 1: success results round-trip losslessly', () => {
+    fc.assert(
+      fc.property(extendedValue, (value) => {
+        const result = deserialize(serialize([true, null, value]));
+
+        expect(result).toStrictEqual([true, null, value]);
+
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  /**
+   * **Feature: wire-format, Property 2: 错误的 code、name 与 cause 链被保留**
+   * *For any* chain of messages and codes, a SafeError whose causes nest in that order
+   * SHALL round-trip with the same message, code and name at every level.
+   */
+  it('Property 2: error code, name and cause chain are preserved', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.tuple(fc.string(), fc.option(fc.string(), { nil: undefined })), { minLength: 1, maxLength: 5 }),
+        (chain) => {
+          const error = chain.reduceRight<unknown>(
+            (cause, [message, code]) => new SafeError(message, { cause, code }),
+            undefined
+          ) as SafeError;
+
+          const [ok, err, data] = deserialize(serialize([false, error, null]));
+
+          expect(ok).toBe(false);
+          expect(data).toBeNull();
+
+          let current: unknown = err;
+          for (const [message, code] of chain) {
+            expect(current).toBeInstanceOf(SafeError);
+            const level = current as SafeError;
+            expect(level.name).toBe('SafeError');
+            expect(level.message).toBe(message);
+            expect(level.code).toBe(code);
+            current = level.cause;
+          }
+          expect(current).toBeUndefined();
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: wire-format, Property 3: 非法输入返回 ErrorResult 而不抛出**
+   * *For any* string S, `deserialize(S)` SHALL NOT throw, and non-envelope input SHALL
+   * produce an ErrorResult with code `MALFORMED`.
+   */
+  it('Property 3: malformed input yields an ErrorResult instead of throwing', () => {
+    fc.assert(
+      fc.property(fc.oneof(fc.string(), fc.json()), (input) => {
+        const [ok, err] = deserialize(input);
+
+        if (!ok) {
+          expect(err).toBeInstanceOf(SafeError);
+          expect(err.code).toBe('MALFORMED');
+        }
+
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should preserve circular and shared references', () => {
+    const node: Record<string, unknown> = { name: 'root' };
+    const shared = { id: 1 };
+    node.self = node;
+    node.items = [shared, shared];
+    node.lookup = new Map([['root', node]]);
+
+    const [ok, , data] = deserialize<typeof node>(serialize([true, null, node]));
+
+    expect(ok).toBe(true);
+    expect(data?.self).toBe(data);
+    const items = data?.items as unknown[];
+    expect(items[0]).toBe(items[1]);
+    expect((data?.lookup as Map<string, unknown>).get('root')).toBe(data);
+  });
+
+  it('should keep subclass fields and the original error as cause', () => {
+    const original = new TypeError('bad input');
+    const error = new SafeAggregateError('all failed', [SafeError.from(original)], { code: 'ALL_FAILED' });
+
+    const [, err] = deserialize(serialize([false, error, null]));
+
+    expect(err).toBeInstanceOf(SafeAggregateError);
+    expect(err?.name).toBe('SafeAggregateError');
+    expect(err?.code).toBe('ALL_FAILED');
+    const inner = (err as SafeAggregateError).errors[0]!;
+    expect(inner.message).toBe('bad input');
+    expect(inner.cause).toBeInstanceOf(Error);
+    expect((inner.cause as Error).name).toBe('TypeError');
+  });
+
+  it('should preserve context layers and their metadata', () => {
+    const inner = new SafeError('connection refused', { code: 'ECONNREFUSED' });
+    const error = SafeError.wrap(SafeError.wrap(inner, { message: 'loading user', meta: { userId: 7 } }), 'rendering page');
+
+    const [, err] = deserialize(serialize([false, error, null]));
+
+    expect(err?.message).toBe('rendering page');
+    expect(err?.code).toBe('ECONNREFUSED');
+    const middle = err?.cause as SafeError;
+    expect(middle.message).toBe('loading user');
+    expect(middle.meta).toEqual({ userId: 7 });
+    expect((middle.cause as SafeError).message).toBe('connection refused');
+  });
+
+  it('should include the stack only when requested', () => {
+    const error = new SafeError('with stack');
+
+    expect(deserialize(serialize([false, error, null]))[1]?.stack).toBeUndefined();
+    expect(deserialize(serialize([false, error, null], { stack: true }))[1]?.stack).toBe(error.stack);
+  });
+
+  it('should wrap non-SafeError errors with SafeError.from', () => {
+    const result: SafeResult<never, string> = [false, 'plain failure', null];
+    const [, err] = deserialize(serialize(result));
+    expect(err?.message).toBe('plain failure');
+  });
+
+  it('should round-trip SafeErrors branded in another realm', async () => {
+    const foreign = vm.runInNewContext(`
+      const e = new Error("payment declined");
+      Object.defineProperty(Object.getPrototypeOf(e), Symbol.for("await-to-tuple.SafeError"), { value: true });
+      e.name = "SafeError";
+      e.code = "DECLINED";
+      e
+    `);
+
+    const [ok, err] = deserialize(serialize(await to(Promise.reject(foreign))));
+
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(SafeError);
+    expect(err?.message).toBe('payment declined');
+    expect(err?.code).toBe('DECLINED');
+  });
+
+  it('should reject unknown versions and tags', () => {
+    const wrongVersion = JSON.stringify({ v: SERIALIZE_VERSION + 1, ok: true, data: 1 });
+    const unknownTag = JSON.stringify({ v: SERIALIZE_VERSION, ok: true, data: { $t: 'nope', v: 1 } });
+
+    expect(deserialize(wrongVersion)[1]?.code).toBe('MALFORMED');
+    expect(deserialize(unknownTag)[1]?.code).toBe('MALFORMED');
+  });
+});
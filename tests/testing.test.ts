@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { matchers, type SafeResultMatchers } from '../src/testing';
+import { SafeError } from '../src/error';
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends SafeResultMatchers<T> {}
+}
+
+expect.extend(matchers);
+
+describe('matchers', () => {
+  it('toBeOk should match success results and optional values', () => {
+    expect([true, null, { id: 1 }]).toBeOk();
+    expect([true, null, { id: 1 }]).toBeOk({ id: 1 });
+    expect([true, null, 1]).not.toBeOk(2);
+    expect([false, new SafeError('boom'), null]).not.toBeOk();
+    expect('not a tuple').not.toBeOk();
+  });
+
+  it('toBeErr should match error results and optional codes', () => {
+    expect([false, new SafeError('boom', { code: 'E_BOOM' }), null]).toBeErr();
+    expect([false, new SafeError('boom', { code: 'E_BOOM' }), null]).toBeErr('E_BOOM');
+    expect([false, new SafeError('boom'), null]).not.toBeErr('E_BOOM');
+    expect([true, null, 1]).not.toBeErr();
+  });
+
+  it('toBeErrWith should match the error message by substring or pattern', () => {
+    const result = [false, new SafeError('Request failed with 503'), null];
+    expect(result).toBeErrWith('failed');
+    expect(result).toBeErrWith(/\d{3}$/);
+    expect(result).not.toBeErrWith('timeout');
+  });
+
+  it('should report failures using format', () => {
+    const result = [false, new SafeError('load failed', { cause: new Error('ENOENT') }), null] as const;
+
+    expect(() => expect(result).toBeOk(42)).toThrowError(
+      'expected [ERR] error: load failed: ENOENT to be [OK] data: 42'
+    );
+    expect(() => expect([true, null, 'x']).not.toBeOk()).toThrowError(
+      'expected [OK] data: "x" not to be [OK]'
+    );
+  });
+
+  it('should not serialize data when the assertion passes', () => {
+    const circular: Record<string, unknown> = { id: 1 };
+    circular.self = circular;
+
+    expect([true, null, 10n]).toBeOk();
+    expect([true, null, 10n]).toBeOk(10n);
+    expect([true, null, circular]).toBeOk();
+    expect([true, null, circular]).toBeOk(circular);
+    expect([true, null, 10n]).not.toBeErr();
+  });
+
+  it('should fall back to String when the data cannot be formatted', () => {
+    const circular: Record<string, unknown> = { id: 1 };
+    circular.self = circular;
+
+    expect(() => expect([true, null, 10n]).toBeOk(11n)).toThrowError(
+      'expected [OK] data: 10 to be [OK] data: 11'
+    );
+    expect(() => expect([true, null, circular]).toBeErr()).toThrowError(
+      'expected [OK] data: [object Object] to be [ERR]'
+    );
+  });
+});
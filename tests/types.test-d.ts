@@ -0,0 +1,144 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { isOk, isErr, match } from '../src/utils';
+import { SafeError, CollectError, defineError, fields } from '../src/error';
+import { collectAll } from '../src/combinators';
+import { withResource } from '../src/resource';
+import { registerError } from '../src/registry';
+import { memoize } from '../src/memoize';
+import type {
+  SafeResult,
+  SuccessResult,
+  ErrorResult,
+  OkType,
+  ErrType,
+  ResultOf,
+  Unwrapped,
+} from '../src/types';
+
+class NotFound extends SafeError {
+  readonly status = 404;
+}
+
+declare function loadUser(id: string): Promise<SafeResult<{ id: string }, NotFound>>;
+declare function parseAge(input: string): SafeResult<number>;
+
+describe('type utilities', () => {
+  it('should extract data and error types', () => {
+    expectTypeOf<OkType<SafeResult<number, NotFound>>>().toEqualTypeOf<number>();
+    expectTypeOf<ErrType<SafeResult<number, NotFound>>>().toEqualTypeOf<NotFound>();
+    expectTypeOf<OkType<ReturnType<typeof loadUser>>>().toEqualTypeOf<{ id: string }>();
+    expectTypeOf<ErrType<ReturnType<typeof loadUser>>>().toEqualTypeOf<NotFound>();
+  });
+
+  it('should derive results from functions', () => {
+    expectTypeOf<ResultOf<typeof loadUser>>().toEqualTypeOf<SafeResult<{ id: string }, NotFound>>();
+    expectTypeOf<ResultOf<typeof parseAge>>().toEqualTypeOf<SafeResult<number>>();
+    expectTypeOf<Unwrapped<typeof loadUser>>().toEqualTypeOf<{ id: string }>();
+    expectTypeOf<Unwrapped<Promise<SafeResult<string>>>>().toEqualTypeOf<string>();
+  });
+});
+
+describe('narrowing', () => {
+  it('should narrow SuccessResult and ErrorResult on the ok flag', () => {
+    const result = parseAge('42');
+    const [ok, err, data] = result;
+    if (ok) {
+      expectTypeOf(err).toEqualTypeOf<null>();
+      expectTypeOf(data).toEqualTypeOf<number>();
+      expectTypeOf(result).toEqualTypeOf<SuccessResult<number>>();
+    } else {
+      expectTypeOf(err).toEqualTypeOf<SafeError>();
+      expectTypeOf(data).toEqualTypeOf<null>();
+      expectTypeOf(result).toEqualTypeOf<ErrorResult<SafeError>>();
+    }
+  });
+
+  it('should narrow arrays of results in filter()', () => {
+    const results = [parseAge('1'), parseAge('x')];
+    expectTypeOf(results.filter(isOk)).toEqualTypeOf<SuccessResult<number>[]>();
+    expectTypeOf(results.filter(isErr)).toEqualTypeOf<ErrorResult<SafeError>[]>();
+    expectTypeOf(results.filter(isOk).map(([, , data]) => data)).toEqualTypeOf<number[]>();
+  });
+
+  it('should infer match() handler types', () => {
+    const value = match(parseAge('1'), { ok: (age) => age * 2, err: (e) => e.message });
+    expectTypeOf(value).toEqualTypeOf<number | string>();
+  });
+});
+
+describe('collectAll()', () => {
+  it('should return a typed record, awaiting only when a check is async', () => {
+    const sync = collectAll({ age: parseAge('1'), role: 'admin' as const });
+    expectTypeOf(sync).toEqualTypeOf<
+      SafeResult<{ age: number; role: 'admin' }, CollectError<SafeError>>
+    >();
+
+    const nested = collectAll({ user: { id: loadUser('1') } }, { nested: true });
+    expectTypeOf(nested).resolves.toEqualTypeOf<
+      SafeResult<{ user: { id: { id: string } } }, CollectError<NotFound>>
+    >();
+  });
+});
+
+describe('withResource()', () => {
+  it('should infer the resource and require release for non-disposable resources', () => {
+    const result = withResource(
+      () => loadUser('1'),
+      (user) => user.id.length,
+      () => undefined
+    );
+    expectTypeOf(result).resolves.toEqualTypeOf<SafeResult<number, SafeError | NotFound>>();
+
+    const file = { [Symbol.asyncDispose]: async () => {} };
+    expectTypeOf(withResource(async () => file, () => 'done')).resolves.toEqualTypeOf<
+      SafeResult<string, SafeError>
+    >();
+
+    // @ts-expect-error plain objects need an explicit release function
+    withResource(async () => ({ id: 1 }), () => 'done');
+  });
+});
+
+describe('ErrorRule', () => {
+  it('should infer the error type from instanceOf and keep test-based rules unknown', () => {
+    registerError({
+      instanceOf: RangeError,
+      map: (err) => {
+        expectTypeOf(err).toEqualTypeOf<RangeError>();
+        return new SafeError(err.message);
+      },
+    });
+    registerError({
+      test: (err) => typeof err === 'string',
+      map: (err) => {
+        expectTypeOf(err).toEqualTypeOf<unknown>();
+        return new SafeError(String(err));
+      },
+    });
+  });
+});
+
+describe('defineError()', () => {
+  it('should reject payload fields that shadow reserved error properties', () => {
+    // @ts-expect-error code is the discriminant
+    defineError('HttpFail', { fields: fields<{ code: number }>() });
+    // @ts-expect-error name always mirrors the code
+    defineError('DuplicateUser', { message: (f: { name: string }) => f.name });
+    // @ts-expect-error cause comes from the options argument
+    fields<{ cause: Error }>();
+
+    const Conflict = defineError('Conflict', { fields: fields<{ expected: number }>() });
+    expectTypeOf(new Conflict({ expected: 2 }).code).toEqualTypeOf<'Conflict'>();
+  });
+});
+
+describe('memoize()', () => {
+  it('should require a key for functions with more than one argument', () => {
+    const add = (a: number, b: number) => Promise.resolve<SafeResult<number>>([true, null, a + b]);
+
+    // @ts-expect-error no default key for two arguments
+    memoize(add);
+    memoize(add, { key: (a, b) => `${a}:${b}` });
+    memoize((id: string) => Promise.resolve<SafeResult<string>>([true, null, id]));
+  });
+});
@@ -1,7 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import * as fc from 'fast-check';
-import { or, map, pipe, format, parse } from '../src/utils';
-import { SafeError } from '../src/error';
+import { or, map, pipe, format, parse, withContext, match, isOk, isErr } from '../src/utils';
+import { SafeError, PipeError } from '../src/error';
+import { to, sync } from '../src/core';
 import type { SafeResult, SuccessResult, ErrorResult } from '../src/types';
 
 describe('or()', () => {
@@ -163,6 +164,71 @@ describe('pipe()', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * **Feature: typed-pipe, Property 1: 失败步骤的索引被记录**
+   * *For any* pipeline where step N fails, whether by throwing or by returning an
+   * ErrorResult, the error SHALL be a PipeError whose `step` is N.
+   */
+  it('Property 1: pipe records the failing step index', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 5 }),
+        fc.nat(),
+        fc.boolean(),
+        async (totalFunctions, failSeed, returnsResult) => {
+          const failAt = failSeed % totalFunctions;
+          const fns = Array.from({ length: totalFunctions }, (_, i) => {
+            return (value: number) => {
+              if (i !== failAt) {
+                return value + 1;
+              }
+              if (returnsResult) {
+                return sync<number>(() => { throw new Error(`step ${i}`); });
+              }
+              throw new Error(`step ${i}`);
+            };
+          });
+
+          const [ok, err] = await pipe(0, ...fns);
+
+          expect(ok).toBe(false);
+          expect(err).toBeInstanceOf(PipeError);
+          expect(err).toBeInstanceOf(SafeError);
+          expect(err?.step).toBe(failAt);
+          expect(err?.message).toBe(`step ${failAt}`);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should mix sync, async and SafeResult-returning steps', async () => {
+    const [ok, err, data] = await pipe(
+      '21',
+      (s: string) => Number(s),
+      async (n: number) => n * 2,
+      (n: number) => sync(() => `value: ${n}`)
+    );
+
+    expect(ok).toBe(true);
+    expect(err).toBeNull();
+    expect(data).toBe('value: 42');
+  });
+
+  it('should keep the code and original error of a failed SafeResult step', async () => {
+    const original = new SafeError('not found', { code: 'NOT_FOUND' });
+    const later = vi.fn();
+
+    const [ok, err] = await pipe(1, () => [false, original, null] as const, later);
+
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('NOT_FOUND');
+    expect(err?.cause).toBe(original);
+    expect(later).not.toHaveBeenCalled();
+  });
 });
 
 
@@ -223,3 +289,87 @@ describe('format() and parse()', () => {
     );
   });
 });
+
+
+describe('withContext()', () => {
+  /**
+   * **Feature: error-context, Property 1: 每层上下文包装上一层错误**
+   * *For any* list of context messages applied in order, the outermost SafeError SHALL
+   * carry the last message and each layer's `cause` SHALL be the previous layer.
+   */
+  it('Property 1: each layer wraps the previous error as its cause', () => {
+    fc.assert(
+      fc.property(fc.string(), fc.array(fc.string(), { minLength: 1, maxLength: 5 }), (root, contexts) => {
+        const inner = new SafeError(root, { code: 'ROOT' });
+        let result: SafeResult<number, SafeError> = [false, inner, null];
+        for (const context of contexts) {
+          result = withContext(result, context);
+        }
+
+        const [ok, err] = result;
+        expect(ok).toBe(false);
+
+        let current: unknown = err;
+        for (const context of [...contexts].reverse()) {
+          expect(current).toBeInstanceOf(SafeError);
+          expect((current as SafeError).message).toBe(context);
+          expect((current as SafeError).code).toBe('ROOT');
+          current = (current as SafeError).cause;
+        }
+        expect(current).toBe(inner);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should leave success results untouched', () => {
+    expect(withContext([true, null, 1], 'loading')).toEqual([true, null, 1]);
+  });
+
+  it('should attach structured metadata from to() and sync() options', async () => {
+    const [, asyncErr] = await to(Promise.reject(new Error('connection refused')), {
+      context: { message: 'loading user', meta: { userId: 7 } },
+    });
+    const [, syncErr] = sync(() => { throw new Error('bad json'); }, { context: 'parsing config' });
+
+    expect(asyncErr?.message).toBe('loading user');
+    expect(asyncErr?.meta).toEqual({ userId: 7 });
+    expect((asyncErr?.cause as SafeError).message).toBe('connection refused');
+    expect(syncErr?.message).toBe('parsing config');
+  });
+
+  it('should render the context stack from outermost to innermost in format()', async () => {
+    const [, err] = await to(Promise.reject(new Error('ECONNREFUSED')), {
+      context: { message: 'fetching profile', meta: { attempt: 2 } },
+    });
+    const result = withContext<never, SafeError>([false, err!, null], 'rendering page');
+
+    expect(format(result)).toBe(
+      '[ERR] error: rendering page: fetching profile {"attempt":2}: ECONNREFUSED'
+    );
+  });
+});
+
+describe('match() and guards', () => {
+  it('should call the handler for the matching branch', () => {
+    const ok: SafeResult<number> = [true, null, 21];
+    const err: SafeResult<number> = [false, new SafeError('boom'), null];
+    const handlers = { ok: (n: number) => n * 2, err: (e: SafeError) => e.message };
+
+    expect(match(ok, handlers)).toBe(42);
+    expect(match(err, handlers)).toBe('boom');
+  });
+
+  it('should split arrays of results with isOk / isErr', () => {
+    const results: SafeResult<number>[] = [
+      [true, null, 1],
+      [false, new SafeError('a'), null],
+      [true, null, 2],
+    ];
+
+    expect(results.filter(isOk).map(([, , data]) => data)).toEqual([1, 2]);
+    expect(results.filter(isErr).map(([, err]) => err.message)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { validate, validateSync } from '../src/validate';
+import type { StandardSchemaV1 } from '../src/validate';
+import { SafeError, ValidationError } from '../src/error';
+
+interface User {
+  name: string;
+  age: number;
+}
+
+function userSchema(async = false): StandardSchemaV1<unknown, User> {
+  const check = (value: unknown): StandardSchemaV1.Result<User> => {
+    const input = (value ?? {}) as Record<string, unknown>;
+    const issues: StandardSchemaV1.Issue[] = [];
+    if (typeof input.name !== 'string') {
+      issues.push({ message: 'Expected string', path: ['name'] });
+    }
+    if (typeof input.age !== 'number') {
+      issues.push({ message: 'Expected number', path: [{ key: 'age' }] });
+    }
+    return issues.length > 0 ? { issues } : { value: input as unknown as User };
+  };
+
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: async ? (value) => Promise.resolve(check(value)) : check,
+    },
+  };
+}
+
+describe('validate()', () => {
+  /**
+   * **Feature: schema-validation, Property 1: 合法输入返回校验后的值**
+   * *For any* valid user object U, validate SHALL return `[true, null, U]`
+   * for both sync and async schemas.
+   */
+  it('Property 1: valid input yields the schema output', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.record({ name: fc.string(), age: fc.integer() }), fc.boolean(), async (user, async) => {
+        const [ok, err, data] = await validate(user, userSchema(async));
+
+        expect(ok).toBe(true);
+        expect(err).toBeNull();
+        expect(data).toEqual(user);
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: schema-validation, Property 2: 累积模式报告全部问题**
+   * *For any* input missing some fields, accumulating mode SHALL report one issue per
+   * invalid field with its path, and the default mode SHALL report only the first.
+   */
+  it('Property 2: accumulating mode reports every issue', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.boolean(), fc.boolean(), async (hasName, hasAge) => {
+        fc.pre(!hasName || !hasAge);
+        const input = { ...(hasName ? { name: 'a' } : {}), ...(hasAge ? { age: 1 } : {}) };
+        const expectedPaths = [...(hasName ? [] : [['name']]), ...(hasAge ? [] : [['age']])];
+
+        const [, all] = await validate(input, userSchema(), { accumulate: true });
+        const [, first] = await validate(input, userSchema());
+
+        expect(all).toBeInstanceOf(ValidationError);
+        expect(all?.code).toBe('VALIDATION');
+        expect((all as ValidationError).issues.map((issue) => issue.path)).toEqual(expectedPaths);
+        expect((first as ValidationError).issues).toHaveLength(1);
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should describe issues with their paths in the message', async () => {
+    const [, err] = await validate({}, userSchema(true), { accumulate: true });
+    expect(err?.message).toBe('Validation failed: name: Expected string; age: Expected number');
+  });
+
+  it('should capture validators that throw', async () => {
+    const schema: StandardSchemaV1 = {
+      '~standard': { version: 1, vendor: 'test', validate: () => { throw new Error('broken'); } },
+    };
+
+    const [ok, err] = await validate(1, schema);
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(SafeError);
+    expect(err?.message).toBe('broken');
+  });
+});
+
+
+describe('validateSync()', () => {
+  it('should validate synchronously', () => {
+    expect(validateSync({ name: 'a', age: 1 }, userSchema())).toEqual([true, null, { name: 'a', age: 1 }]);
+    expect(validateSync({}, userSchema())[1]?.code).toBe('VALIDATION');
+  });
+
+  it('should report ASYNC_SCHEMA for asynchronous schemas', () => {
+    const [ok, err] = validateSync({}, userSchema(true));
+    expect(ok).toBe(false);
+    expect(err?.code).toBe('ASYNC_SCHEMA');
+  });
+});
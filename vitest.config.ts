@@ -1,9 +1,16 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  esbuild: {
+    target: 'es2022',
+  },
   test: {
     globals: true,
     include: ['tests/**/*.test.ts'],
+    typecheck: {
+      enabled: true,
+      tsconfig: './tsconfig.test.json',
+    },
     coverage: {
       provider: 'v8',
       include: ['src/**/*.ts'],